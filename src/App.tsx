@@ -9,12 +9,16 @@ import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import Templates from "./pages/Templates";
+import Fonts from "./pages/Fonts";
 import Generate from "./pages/Generate";
 import History from "./pages/History";
+import BatchDetail from "./pages/BatchDetail";
+import Verify from "./pages/Verify";
 import NotFound from "./pages/NotFound";
 
-// Lazy load TemplateEditor to avoid react-konva import blocking the app
+// Lazy load the Konva pages to avoid react-konva import blocking the app
 const TemplateEditor = lazy(() => import("./pages/TemplateEditor"));
+const TemplateView = lazy(() => import("./pages/TemplateView"));
 
 const LoadingFallback = () => (
   <div className="flex items-center justify-center min-h-screen">
@@ -37,9 +41,13 @@ const App = () => (
             <Route path="/dashboard" element={<Dashboard />} />
             <Route path="/templates" element={<Templates />} />
             <Route path="/templates/new" element={<Suspense fallback={<LoadingFallback />}><TemplateEditor /></Suspense>} />
+            <Route path="/templates/:id" element={<Suspense fallback={<LoadingFallback />}><TemplateView /></Suspense>} />
             <Route path="/templates/:id/edit" element={<Suspense fallback={<LoadingFallback />}><TemplateEditor /></Suspense>} />
+            <Route path="/fonts" element={<Fonts />} />
             <Route path="/generate" element={<Generate />} />
             <Route path="/history" element={<History />} />
+            <Route path="/history/:id" element={<BatchDetail />} />
+            <Route path="/verify/:code" element={<Verify />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -1,59 +1,44 @@
 import { useRef, useEffect, useState } from 'react';
-import { Stage, Layer, Image as KonvaImage, Text } from 'react-konva';
-import useImage from 'use-image';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
 import { Eye, ChevronLeft, ChevronRight } from 'lucide-react';
+import { isFieldVisible } from '@/lib/certificates/conditions';
+import { getFieldValue, isTextTemplate } from '@/lib/certificates/layout';
+import CertificateStage from './CertificateStage';
+import type { CertificateTemplate, CsvRow, TemplateField, TemplatePage } from '@/lib/certificates/types';
 
-interface TemplateField {
-  id: string;
-  field_key: string;
-  label: string;
-  x: number;
-  y: number;
-  font_size: number;
-  font_family: string;
-  font_color: string;
-  text_align: string;
-  max_width: number | null;
+// A template with the pages and fields a row is laid out with
+export interface PreviewTemplate {
+  template: CertificateTemplate;
+  pages: TemplatePage[];
+  fields: TemplateField[];
 }
 
 interface CertificatePreviewProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  template: {
-    id: string;
-    name: string;
-    image_url: string;
-    image_width: number;
-    image_height: number;
-  } | null;
-  templateFields: TemplateField[];
+  // The template each record is issued with, which template variants can make differ per row
+  templateFor: (row: CsvRow) => PreviewTemplate | null;
   csvData: Record<string, string>[];
   fieldMapping: Record<string, string>;
+  // Record to show when the dialog opens, e.g. one flagged by the pre-flight check
+  startIndex?: number;
 }
 
 export default function CertificatePreview({
   open,
   onOpenChange,
-  template,
-  templateFields,
+  templateFor,
   csvData,
   fieldMapping,
+  startIndex,
 }: CertificatePreviewProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const [previewIndex, setPreviewIndex] = useState(0);
   const [containerWidth, setContainerWidth] = useState(800);
-  const [image] = useImage(template?.image_url || '', 'anonymous');
 
-  // Calculate scale to fit container
-  const templateWidth = template?.image_width || 800;
-  const templateHeight = template?.image_height || 600;
-  const scale = Math.min(containerWidth / templateWidth, 0.9);
-  const scaledWidth = templateWidth * scale;
-  const scaledHeight = templateHeight * scale;
 
   useEffect(() => {
     const updateWidth = () => {
@@ -66,15 +51,19 @@ export default function CertificatePreview({
     return () => window.removeEventListener('resize', updateWidth);
   }, [open]);
 
+  useEffect(() => {
+    if (open && startIndex !== undefined) setPreviewIndex(startIndex);
+  }, [open, startIndex]);
+
   const currentRow = csvData[previewIndex] || {};
+  const current = templateFor(currentRow);
 
-  const getFieldValue = (fieldKey: string) => {
-    const csvColumn = fieldMapping[fieldKey];
-    if (csvColumn && currentRow[csvColumn]) {
-      return currentRow[csvColumn];
-    }
-    return `{{${fieldKey}}}`;
-  };
+  // Calculate scale to fit container
+  const templateWidth = current?.template.image_width || 800;
+  const scale = Math.min(containerWidth / templateWidth, 0.9);
+  // The selector lists the first records, plus the current one when it's further down
+  const selectable = csvData.slice(0, 20).map((_, i) => i);
+  if (previewIndex >= 20) selectable.push(previewIndex);
 
   const handlePrev = () => {
     setPreviewIndex((i) => Math.max(0, i - 1));
@@ -84,7 +73,8 @@ export default function CertificatePreview({
     setPreviewIndex((i) => Math.min(csvData.length - 1, i + 1));
   };
 
-  if (!template) return null;
+  if (!current) return null;
+  const { template, pages, fields: templateFields } = current;
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -95,7 +85,7 @@ export default function CertificatePreview({
             Certificate Preview
           </DialogTitle>
           <DialogDescription>
-            Preview how your certificate will look with actual data
+            Preview how your certificate will look with actual data · {template.name}
           </DialogDescription>
         </DialogHeader>
 
@@ -112,9 +102,9 @@ export default function CertificatePreview({
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {csvData.slice(0, 20).map((row, i) => (
+                  {selectable.map((i) => (
                     <SelectItem key={i} value={String(i)}>
-                      {row[fieldMapping.name || Object.keys(row)[0]] || `Record ${i + 1}`}
+                      {csvData[i][fieldMapping.name || Object.keys(csvData[i])[0]] || `Record ${i + 1}`}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -146,37 +136,21 @@ export default function CertificatePreview({
           {/* Canvas preview */}
           <div
             ref={containerRef}
-            className="border rounded-lg bg-muted/30 p-6 flex items-center justify-center overflow-hidden"
+            className="border rounded-lg bg-muted/30 p-6 flex flex-col items-center justify-center gap-6 overflow-hidden"
           >
-            <div className="shadow-2xl rounded-lg overflow-hidden">
-              <Stage width={scaledWidth} height={scaledHeight}>
-                <Layer>
-                  {/* Background image */}
-                  {image && (
-                    <KonvaImage
-                      image={image}
-                      width={scaledWidth}
-                      height={scaledHeight}
-                    />
-                  )}
-
-                  {/* Dynamic fields with actual data */}
-                  {templateFields.map((field) => (
-                    <Text
-                      key={field.id}
-                      x={field.x * scale}
-                      y={field.y * scale}
-                      text={getFieldValue(field.field_key)}
-                      fontSize={field.font_size * scale}
-                      fontFamily={field.font_family}
-                      fill={field.font_color}
-                      align={field.text_align as 'left' | 'center' | 'right'}
-                      width={field.max_width ? field.max_width * scale : undefined}
-                    />
-                  ))}
-                </Layer>
-              </Stage>
-            </div>
+            {pages.map((page) => (
+              <div key={page.page_index} className="shadow-2xl rounded-lg overflow-hidden">
+                <CertificateStage
+                  template={template}
+                  page={page}
+                  fields={templateFields}
+                  row={currentRow}
+                  mapping={fieldMapping}
+                  scale={scale}
+                  showPlaceholders={false}
+                />
+              </div>
+            ))}
           </div>
 
           {/* Field values display */}
@@ -184,12 +158,23 @@ export default function CertificatePreview({
             <div className="text-sm font-medium text-muted-foreground col-span-2 mb-1">
               Field Values for this Certificate:
             </div>
-            {templateFields.map((field) => (
-              <div key={field.id} className="flex items-center gap-2 text-sm">
-                <span className="text-muted-foreground">{`{{${field.field_key}}}`}:</span>
-                <span className="font-medium">{getFieldValue(field.field_key)}</span>
-              </div>
-            ))}
+            {templateFields.map((field) => {
+              const value = getFieldValue(field, currentRow, fieldMapping);
+              return (
+                <div key={field.id} className="flex items-center gap-2 text-sm">
+                  <span className="text-muted-foreground">
+                    {isTextTemplate(field) ? field.label : `{{${field.field_key}}}`}:
+                  </span>
+                  {!isFieldVisible(field, currentRow, fieldMapping) ? (
+                    <span className="italic text-muted-foreground">Hidden on this certificate</span>
+                  ) : value ? (
+                    <span className="font-medium">{value}</span>
+                  ) : (
+                    <span className="italic text-muted-foreground">Empty</span>
+                  )}
+                </div>
+              );
+            })}
           </div>
         </div>
       </DialogContent>
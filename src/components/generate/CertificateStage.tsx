@@ -0,0 +1,105 @@
+import { useEffect, useRef } from 'react';
+import type Konva from 'konva';
+import { Stage, Layer, Image as KonvaImage } from 'react-konva';
+import useImage from 'use-image';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useCustomFonts } from '@/hooks/useCustomFonts';
+import { layoutCertificate, pageFields } from '@/lib/certificates/layout';
+import { measureText } from '@/lib/certificates/measure';
+import { STORAGE_BUCKET, assetPath } from '@/lib/certificates/paths';
+import { sampleVerification } from '@/lib/certificates/verification';
+import type { CertificateTemplate, CsvRow, FieldMapping, TemplateField, TemplatePage } from '@/lib/certificates/types';
+import ImageShape from './ImageShape';
+import QrShape from './QrShape';
+import TextShape from './TextShape';
+
+interface CertificateStageProps {
+  template: CertificateTemplate;
+  // Which page to show; defaults to the template's first page
+  page?: TemplatePage;
+  fields: TemplateField[];
+  row: CsvRow;
+  mapping: FieldMapping;
+  scale: number;
+  // Show `{{key}}` for empty values and ignore visibility conditions, for templates without data
+  showPlaceholders?: boolean;
+}
+
+// A read-only certificate laid out exactly as the renderer does; unless told otherwise unmapped fields show
+// as `{{key}}`. Verification fields show a sample code and images without a source show as a shaded box.
+export default function CertificateStage({
+  template,
+  page,
+  fields,
+  row,
+  mapping,
+  scale,
+  showPlaceholders = true,
+}: CertificateStageProps) {
+  const { user } = useAuth();
+  const stageRef = useRef<Konva.Stage>(null);
+  const { version: fontsVersion } = useCustomFonts();
+  const background = page ?? template;
+  const [image] = useImage(background.image_url, 'anonymous');
+
+  const layout = layoutCertificate(background, pageFields(fields, page?.page_index ?? 0), row, mapping, measureText, {
+    showPlaceholders,
+    verification: sampleVerification(window.location.origin),
+    assetBaseUrl: user
+      ? supabase.storage.from(STORAGE_BUCKET).getPublicUrl(assetPath(user.id, '')).data.publicUrl
+      : undefined,
+  });
+
+  // Text drawn before an uploaded font finished loading used a fallback
+  useEffect(() => {
+    stageRef.current?.batchDraw();
+  }, [fontsVersion]);
+
+  return (
+    <Stage ref={stageRef} width={layout.width * scale} height={layout.height * scale}>
+      <Layer>
+        {/* Background image */}
+        {image && (
+          <KonvaImage
+            image={image}
+            width={layout.width * scale}
+            height={layout.height * scale}
+          />
+        )}
+
+        {layout.elements.map((element) =>
+          element.kind === 'qr' ? (
+            <QrShape
+              key={element.id}
+              element={element}
+              x={element.x * scale}
+              y={element.y * scale}
+              scaleX={scale}
+              scaleY={scale}
+            />
+          ) : element.kind === 'image' ? (
+            <ImageShape
+              key={element.id}
+              element={element}
+              showPlaceholder={showPlaceholders}
+              x={element.x * scale}
+              y={element.y * scale}
+              scaleX={scale}
+              scaleY={scale}
+            />
+          ) : (
+            <TextShape
+              key={element.id}
+              element={element}
+              x={element.x * scale}
+              y={element.y * scale}
+              scaleX={scale}
+              scaleY={scale}
+            />
+          )
+        )}
+      </Layer>
+    </Stage>
+  );
+}
@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { EMAIL_BUILTIN_PLACEHOLDERS, renderEmail, type EmailTemplate } from '@/lib/certificates/email';
+import { FORMATTER_EXAMPLES } from '@/lib/certificates/formatters';
+
+// Stands in for the real download link, which only exists once the certificate is rendered
+const SAMPLE_CERTIFICATE_URL = 'https://example.com/certificate';
+
+interface EmailTemplateEditorProps {
+  value: EmailTemplate;
+  onChange: (value: EmailTemplate) => void;
+  templateName: string;
+  fieldKeys: string[];
+  csvData: Record<string, string>[];
+  fieldMapping: Record<string, string>;
+}
+
+export default function EmailTemplateEditor({
+  value,
+  onChange,
+  templateName,
+  fieldKeys,
+  csvData,
+  fieldMapping,
+}: EmailTemplateEditorProps) {
+  const [sampleIndex, setSampleIndex] = useState(0);
+  const index = Math.min(sampleIndex, Math.max(csvData.length - 1, 0));
+
+  const preview = renderEmail(value, {
+    row: csvData[index] || {},
+    mapping: fieldMapping,
+    templateName,
+    certificateUrl: SAMPLE_CERTIFICATE_URL,
+  });
+
+  const update = (patch: Partial<EmailTemplate>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="email-subject">Subject</Label>
+          <Input
+            id="email-subject"
+            value={value.subject}
+            onChange={(e) => update({ subject: e.target.value })}
+          />
+        </div>
+
+        <Tabs defaultValue="html">
+          <TabsList>
+            <TabsTrigger value="html">HTML body</TabsTrigger>
+            <TabsTrigger value="text">Plain-text body</TabsTrigger>
+          </TabsList>
+          <TabsContent value="html">
+            <Textarea
+              className="font-mono text-xs min-h-48"
+              value={value.body_html}
+              onChange={(e) => update({ body_html: e.target.value })}
+            />
+          </TabsContent>
+          <TabsContent value="text">
+            <Textarea
+              className="font-mono text-xs min-h-48"
+              value={value.body_text}
+              onChange={(e) => update({ body_text: e.target.value })}
+            />
+          </TabsContent>
+        </Tabs>
+
+        <div className="flex flex-wrap gap-1">
+          {[...fieldKeys, ...EMAIL_BUILTIN_PLACEHOLDERS].map((key) => (
+            <Badge key={key} variant="secondary" className="font-mono">{`{{${key}}}`}</Badge>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Format values with <span className="font-mono">{FORMATTER_EXAMPLES.join(', ')}</span>
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Preview</Label>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setSampleIndex(index - 1)}
+              disabled={index === 0}
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              Row {index + 1} of {csvData.length}
+            </span>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setSampleIndex(index + 1)}
+              disabled={index >= csvData.length - 1}
+            >
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="border rounded-lg overflow-hidden">
+          <div className="border-b bg-muted/30 px-4 py-2 text-sm">
+            <span className="text-muted-foreground">Subject: </span>
+            <span className="font-medium">{preview.subject}</span>
+          </div>
+          <Tabs defaultValue="html" className="p-2">
+            <TabsList>
+              <TabsTrigger value="html">HTML</TabsTrigger>
+              <TabsTrigger value="text">Plain text</TabsTrigger>
+            </TabsList>
+            <TabsContent value="html">
+              {/* Sandboxed so the user's markup can't run scripts in the app */}
+              <iframe
+                title="Email preview"
+                sandbox=""
+                srcDoc={preview.html}
+                className="w-full h-56 bg-white rounded"
+              />
+            </TabsContent>
+            <TabsContent value="text">
+              <pre className="whitespace-pre-wrap text-sm p-2 h-56 overflow-auto">{preview.text}</pre>
+            </TabsContent>
+          </Tabs>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { Shape } from 'react-konva';
+import type Konva from 'konva';
+import useImage from 'use-image';
+import { drawImageElement, traceImageClip, type Canvas2D } from '@/lib/certificates/draw';
+import type { ImageElement } from '@/lib/certificates/types';
+
+interface ImageShapeProps extends Omit<Konva.ShapeConfig, 'sceneFunc' | 'hitFunc'> {
+  element: ImageElement;
+  // Shade the box while there is no image to show, e.g. a photo that comes from the CSV
+  showPlaceholder?: boolean;
+}
+
+// A laid-out image field on a Konva stage, fitted and clipped by the same routine as the final output.
+// Like QrShape, the element is drawn at the origin and positioned by the node.
+export default function ImageShape({ element, showPlaceholder = false, ...props }: ImageShapeProps) {
+  const [image] = useImage(element.src, 'anonymous');
+  const local = { ...element, x: 0, y: 0 };
+
+  return (
+    <Shape
+      x={element.x}
+      y={element.y}
+      width={element.width}
+      height={element.height}
+      {...props}
+      sceneFunc={(context) => {
+        const ctx = context as unknown as Canvas2D;
+        if (image) {
+          drawImageElement(ctx, local, { source: image, width: image.naturalWidth, height: image.naturalHeight });
+        } else if (showPlaceholder) {
+          traceImageClip(ctx, local);
+          context.fillStyle = 'rgba(148, 163, 184, 0.35)';
+          context.fill();
+        }
+      }}
+      hitFunc={(context, shape) => {
+        context.beginPath();
+        context.rect(0, 0, element.width, element.height);
+        context.closePath();
+        context.fillStrokeShape(shape);
+      }}
+    />
+  );
+}
@@ -0,0 +1,31 @@
+import { Shape } from 'react-konva';
+import type Konva from 'konva';
+import { drawQr, type Canvas2D } from '@/lib/certificates/draw';
+import type { QrElement } from '@/lib/certificates/types';
+
+interface QrShapeProps extends Omit<Konva.ShapeConfig, 'sceneFunc' | 'hitFunc'> {
+  element: QrElement;
+}
+
+// A laid-out QR code on a Konva stage, drawn with the same routine as the final output.
+// Position and scale come from the node, so the code itself is drawn at the origin.
+export default function QrShape({ element, ...props }: QrShapeProps) {
+  const local = { ...element, x: 0, y: 0 };
+
+  return (
+    <Shape
+      x={element.x}
+      y={element.y}
+      width={element.size}
+      height={element.size}
+      {...props}
+      sceneFunc={(context) => drawQr(context as unknown as Canvas2D, local)}
+      hitFunc={(context, shape) => {
+        context.beginPath();
+        context.rect(0, 0, element.size, element.size);
+        context.closePath();
+        context.fillStrokeShape(shape);
+      }}
+    />
+  );
+}
@@ -0,0 +1,40 @@
+import { Text } from 'react-konva';
+import type Konva from 'konva';
+import { toFontStyle } from '@/lib/certificates/layout';
+import type { TextElement } from '@/lib/certificates/types';
+
+interface TextShapeProps extends Omit<Konva.TextConfig, 'text'> {
+  element: TextElement;
+}
+
+// A laid-out text field on a Konva stage. The lines are already fitted, so Konva only draws them;
+// the styling props match drawText in the final output.
+export default function TextShape({ element, ...props }: TextShapeProps) {
+  return (
+    <Text
+      x={element.x}
+      y={element.y}
+      width={element.width}
+      text={element.lines.map((l) => l.text).join('\n')}
+      fontSize={element.font.size}
+      fontFamily={element.font.family}
+      fontStyle={toFontStyle(element.font)}
+      lineHeight={element.lineHeight}
+      letterSpacing={element.letterSpacing}
+      textDecoration={element.underline ? 'underline' : ''}
+      fill={element.color}
+      stroke={element.stroke?.color}
+      strokeWidth={element.stroke?.width ?? 0}
+      lineJoin="round"
+      fillAfterStrokeEnabled={false}
+      shadowColor={element.shadow?.color}
+      shadowBlur={element.shadow?.blur}
+      shadowOffsetX={element.shadow?.offsetX}
+      shadowOffsetY={element.shadow?.offsetY}
+      shadowEnabled={!!element.shadow}
+      align={element.align}
+      wrap="none"
+      {...props}
+    />
+  );
+}
@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { rowValue } from '@/lib/certificates/placeholders';
+import type { CsvRow, FieldMapping } from '@/lib/certificates/types';
+
+export interface RevisableCertificate {
+  id: string;
+  recipient_name: string;
+  recipient_email: string | null;
+  recipient_data: CsvRow;
+  version: number;
+  revoked_at: string | null;
+}
+
+export interface CertificateRevision {
+  certificateId: string;
+  reason: string;
+  // Only set when reissuing
+  replacement?: {
+    recipientName: string;
+    recipientEmail: string;
+    recipientData: CsvRow;
+  };
+}
+
+interface CertificateRevisionDialogProps {
+  mode: 'revoke' | 'reissue';
+  certificate: RevisableCertificate;
+  fieldMapping: FieldMapping;
+  pending: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (revision: CertificateRevision) => void;
+}
+
+// Revoke a certificate, or revoke it and issue a corrected copy from edited recipient data
+export default function CertificateRevisionDialog({
+  mode,
+  certificate,
+  fieldMapping,
+  pending,
+  onOpenChange,
+  onSubmit,
+}: CertificateRevisionDialogProps) {
+  const [reason, setReason] = useState('');
+  const [row, setRow] = useState<CsvRow>(certificate.recipient_data);
+  const [email, setEmail] = useState(certificate.recipient_email ?? '');
+
+  // A certificate that is already revoked keeps its original reason
+  const needsReason = !certificate.revoked_at;
+  const reissue = mode === 'reissue';
+
+  const handleSubmit = () => {
+    onSubmit({
+      certificateId: certificate.id,
+      reason: reason.trim(),
+      replacement: reissue
+        ? {
+            // Named the same way as at generation time
+            recipientName: rowValue('name', row, fieldMapping) || 'Unknown',
+            recipientEmail: email.trim(),
+            recipientData: row,
+          }
+        : undefined,
+    });
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{reissue ? 'Reissue certificate' : 'Revoke certificate'}</DialogTitle>
+          <DialogDescription>
+            {reissue
+              ? `Correct the details below. ${needsReason ? 'The current certificate is revoked and ' : 'A '}version ${certificate.version + 1} is issued with a new verification code.`
+              : `${certificate.recipient_name}'s certificate will show as revoked on its verification page and is removed from the batch download.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {needsReason && (
+            <div className="space-y-2">
+              <Label htmlFor="revocation-reason">Reason</Label>
+              <Textarea
+                id="revocation-reason"
+                placeholder="e.g. Recipient's name was misspelled"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+          )}
+
+          {reissue && (
+            <>
+              {Object.keys(certificate.recipient_data).map((column) => (
+                <div key={column} className="space-y-2">
+                  <Label htmlFor={`column-${column}`}>{column}</Label>
+                  <Input
+                    id={`column-${column}`}
+                    value={row[column] ?? ''}
+                    onChange={(e) => setRow({ ...row, [column]: e.target.value })}
+                  />
+                </div>
+              ))}
+              <div className="space-y-2">
+                <Label htmlFor="reissue-email">Send to</Label>
+                <Input
+                  id="reissue-email"
+                  type="email"
+                  placeholder="Leave empty to skip the email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant={reissue ? 'default' : 'destructive'}
+            onClick={handleSubmit}
+            disabled={pending || (needsReason && !reason.trim())}
+          >
+            {!reissue ? 'Revoke' : needsReason ? 'Revoke and reissue' : 'Reissue'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -16,6 +16,7 @@ import {
   Award, 
   LayoutDashboard, 
   FileImage, 
+  Type,
   Send, 
   History,
   Settings,
@@ -33,6 +34,7 @@ interface DashboardLayoutProps {
 const navItems = [
   { href: '/dashboard', label: 'Dashboard', icon: LayoutDashboard },
   { href: '/templates', label: 'Templates', icon: FileImage },
+  { href: '/fonts', label: 'Fonts', icon: Type },
   { href: '/generate', label: 'Generate', icon: Send },
   { href: '/history', label: 'History', icon: History },
 ];
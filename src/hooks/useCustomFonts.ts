@@ -0,0 +1,64 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { customFamilies } from '@/lib/certificates/fonts';
+import { measureText } from '@/lib/certificates/measure';
+import type { FontSpec, MeasureText } from '@/lib/certificates/types';
+
+const loadedFaces = new Map<string, Promise<void>>();
+
+// Register a face with the document once, so canvas text (Konva, measureText) can use it
+function loadFontFace(font: { family: string; weight: number; style: string; file_url: string }) {
+  if (!loadedFaces.has(font.file_url)) {
+    const face = new FontFace(font.family, `url(${JSON.stringify(font.file_url)})`, {
+      weight: String(font.weight),
+      style: font.style,
+    });
+    const promise = face.load().then((loaded) => {
+      document.fonts.add(loaded);
+    });
+    promise.catch(() => loadedFaces.delete(font.file_url));
+    loadedFaces.set(font.file_url, promise);
+  }
+  return loadedFaces.get(font.file_url)!;
+}
+
+// The user's uploaded fonts, loaded into the page. `version` changes whenever more faces finish
+// loading, so canvases that measured text with a fallback font know to lay out again; `measure`
+// is a new function each time too, for memos that measure text.
+export function useCustomFonts() {
+  const { user } = useAuth();
+  const [version, setVersion] = useState(0);
+  const [measure, setMeasure] = useState<MeasureText>(() => measureText);
+
+  const { data: fonts } = useQuery({
+    queryKey: ['custom-fonts', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('custom_fonts')
+        .select('*')
+        .order('family')
+        .order('weight');
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+
+  useEffect(() => {
+    if (!fonts || fonts.length === 0) return;
+    let cancelled = false;
+    Promise.allSettled(fonts.map(loadFontFace)).then(() => {
+      if (cancelled) return;
+      setVersion((v) => v + 1);
+      setMeasure(() => (text: string, font: FontSpec) => measureText(text, font));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [fonts]);
+
+  const families = useMemo(() => customFamilies(fonts ?? []), [fonts]);
+  return { fonts: fonts ?? [], families, version, measure };
+}
@@ -0,0 +1,57 @@
+import { useEffect } from 'react';
+
+// Arrow keys nudge the selected fields by this much, or ten times as far with Shift
+const ARROW_DIRECTIONS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+};
+
+interface EditorShortcuts {
+  hasSelection: boolean;
+  canPaste: boolean;
+  undo: () => void;
+  redo: () => void;
+  nudge: (dx: number, dy: number) => void;
+  copy: () => void;
+  paste: () => void;
+  duplicate: () => void;
+}
+
+// Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y), copy, paste and duplicate, and arrow-key nudges; text inputs keep their own keys
+export function useEditorShortcuts({ hasSelection, canPaste, undo, redo, nudge, copy, paste, duplicate }: EditorShortcuts) {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      const direction = ARROW_DIRECTIONS[e.key];
+      // Sliders, tabs and menus use the arrow keys themselves
+      if (direction && hasSelection && !e.ctrlKey && !e.metaKey && !target.closest('[role]')) {
+        e.preventDefault();
+        const step = e.shiftKey ? 10 : 1;
+        nudge(direction[0] * step, direction[1] * step);
+        return;
+      }
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      } else if (key === 'c' && hasSelection) {
+        copy();
+      } else if (key === 'v' && canPaste) {
+        e.preventDefault();
+        paste();
+      } else if (key === 'd' && hasSelection) {
+        e.preventDefault();
+        duplicate();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [hasSelection, canPaste, undo, redo, nudge, copy, paste, duplicate]);
+}
@@ -0,0 +1,49 @@
+import { useCallback, useState } from 'react';
+import { copyFields } from '@/lib/certificates/selection';
+
+interface CopyableField {
+  id: string;
+  label: string;
+  x: number;
+  y: number;
+  page_index?: number;
+}
+
+interface FieldClipboardOptions<F> {
+  fields: F[];
+  selectedIds: string[];
+  // The page copies are pasted onto
+  page: number;
+  // Add the copies to the design and select them
+  add: (copies: F[]) => void;
+}
+
+// Copy, paste and duplicate for the editor's selected fields
+export function useFieldClipboard<F extends CopyableField>({ fields, selectedIds, page, add }: FieldClipboardOptions<F>) {
+  const [clipboard, setClipboard] = useState<F[]>([]);
+
+  const pasteFields = useCallback(
+    (source: F[]) => {
+      const copies = copyFields(source, page, Date.now());
+      if (copies.length > 0) add(copies);
+      return copies;
+    },
+    [page, add]
+  );
+
+  const copy = useCallback(() => {
+    setClipboard(fields.filter((f) => selectedIds.includes(f.id)));
+  }, [fields, selectedIds]);
+
+  // Pasting again places the next copies further along, rather than on top of the last ones
+  const paste = useCallback(() => {
+    const copies = pasteFields(clipboard);
+    if (copies.length > 0) setClipboard(copies);
+  }, [clipboard, pasteFields]);
+
+  const duplicate = useCallback(() => {
+    pasteFields(fields.filter((f) => selectedIds.includes(f.id)));
+  }, [fields, selectedIds, pasteFields]);
+
+  return { canPaste: clipboard.length > 0, copy, paste, duplicate };
+}
@@ -0,0 +1,65 @@
+import { useCallback, useState } from 'react';
+import { boxBetween, marqueeSelection, toggleSelection } from '@/lib/certificates/selection';
+import type { Box } from '@/lib/certificates/snapping';
+
+// A selection rectangle being dragged out on the canvas, from where it started to the pointer
+interface Marquee {
+  from: { x: number; y: number };
+  to: { x: number; y: number };
+  additive: boolean;
+}
+
+// The editor's selected fields. Shift-click or a marquee selects several, to align, restyle or
+// move together.
+export function useFieldSelection() {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [marquee, setMarquee] = useState<Marquee | null>(null);
+
+  // Shift-click adds a field to the selection, or takes it out again
+  const select = useCallback((fieldId: string, additive = false) => {
+    setSelectedIds((ids) => toggleSelection(ids, fieldId, additive));
+  }, []);
+
+  const deselect = useCallback((fieldId: string) => {
+    setSelectedIds((ids) => ids.filter((id) => id !== fieldId));
+  }, []);
+
+  // Start a marquee at a point on the page; an additive one adds what it covers to the selection
+  const startMarquee = useCallback((point: { x: number; y: number }, additive: boolean) => {
+    if (!additive) setSelectedIds([]);
+    setMarquee({ from: point, to: point, additive });
+  }, []);
+
+  const extendMarquee = useCallback((point: { x: number; y: number }) => {
+    setMarquee((m) => m && { ...m, to: point });
+  }, []);
+
+  // Select the fields, by their boxes on the page, that the marquee touches
+  const finishMarquee = useCallback(
+    (boxes: Map<string, Box>) => {
+      if (!marquee) return;
+      const area = boxBetween(marquee.from, marquee.to);
+      setSelectedIds((ids) => marqueeSelection(ids, boxes, area, marquee.additive));
+      setMarquee(null);
+    },
+    [marquee]
+  );
+
+  // The fields a drag of this one moves: the whole selection when it is part of it
+  const dragGroup = (fieldId: string) => (selectedIds.includes(fieldId) ? selectedIds : [fieldId]);
+
+  return {
+    selectedIds,
+    // Set only when exactly one field is selected
+    selectedId: selectedIds.length === 1 ? selectedIds[0] : null,
+    setSelectedIds,
+    select,
+    deselect,
+    dragGroup,
+    // The area the marquee covers while one is being dragged out
+    marqueeArea: marquee && boxBetween(marquee.from, marquee.to),
+    startMarquee,
+    extendMarquee,
+    finishMarquee,
+  };
+}
@@ -0,0 +1,68 @@
+import { useCallback, useState } from 'react';
+
+// Changes with the same key closer together than this are one step, e.g. a slider being dragged
+const COALESCE_MS = 1000;
+
+export const HISTORY_LIMIT = 100;
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  // Key and time of the last change, for coalescing
+  lastKey?: string;
+  lastTime: number;
+}
+
+// A value with undo and redo. Each `set` is one step unless it shares a `coalesceKey` with the
+// change just before it, in which case it replaces that step's result.
+export function useHistory<T>(initial: T) {
+  const [state, setState] = useState<HistoryState<T>>({ past: [], present: initial, future: [], lastTime: 0 });
+
+  const set = useCallback((update: (present: T) => T, coalesceKey?: string) => {
+    setState((s) => {
+      const present = update(s.present);
+      if (present === s.present) return s;
+      const now = Date.now();
+      const coalesce = coalesceKey !== undefined && coalesceKey === s.lastKey && now - s.lastTime < COALESCE_MS;
+      return {
+        past: coalesce ? s.past : [...s.past, s.present].slice(-HISTORY_LIMIT),
+        present,
+        future: [],
+        lastKey: coalesceKey,
+        lastTime: now,
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setState((s) =>
+      s.past.length === 0
+        ? s
+        : { past: s.past.slice(0, -1), present: s.past[s.past.length - 1], future: [s.present, ...s.future], lastTime: 0 }
+    );
+  }, []);
+
+  const redo = useCallback(() => {
+    setState((s) =>
+      s.future.length === 0
+        ? s
+        : { past: [...s.past, s.present], present: s.future[0], future: s.future.slice(1), lastTime: 0 }
+    );
+  }, []);
+
+  // Start over from a value that can't be undone, e.g. a saved template that just loaded
+  const reset = useCallback((value: T) => {
+    setState({ past: [], present: value, future: [], lastTime: 0 });
+  }, []);
+
+  return {
+    present: state.present,
+    set,
+    undo,
+    redo,
+    reset,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+  };
+}
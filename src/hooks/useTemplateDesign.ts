@@ -0,0 +1,70 @@
+import { useCallback } from 'react';
+import { useHistory } from '@/hooks/useHistory';
+import type { Offset } from '@/lib/certificates/snapping';
+import type { TemplatePage } from '@/lib/certificates/types';
+
+interface PositionedField {
+  id: string;
+  x: number;
+  y: number;
+}
+
+export interface TemplateDesign<F> {
+  pages: TemplatePage[];
+  fields: F[];
+}
+
+// A template's pages and fields, with one undo history for both. Pages are kept in order, so a
+// page's position is its page_index.
+export function useTemplateDesign<F extends PositionedField>() {
+  const { present, set, undo, redo, reset, canUndo, canRedo } = useHistory<TemplateDesign<F>>({ pages: [], fields: [] });
+
+  // Each change is an undo step, except that changes with the same coalesceKey in quick succession merge
+  const changeFields = useCallback(
+    (update: (fields: F[]) => F[], coalesceKey?: string) => {
+      set((design) => ({ ...design, fields: update(design.fields) }), coalesceKey);
+    },
+    [set]
+  );
+
+  // Update fields. Repeated edits of the same properties (a slider being dragged, typing) are one step;
+  // pass coalesce = false for changes that are complete on their own, like the end of a drag.
+  const updateFields = useCallback(
+    (fieldIds: string[], updates: Partial<F>, coalesce = true) => {
+      changeFields(
+        (current) => current.map((f) => (fieldIds.includes(f.id) ? { ...f, ...updates } : f)),
+        coalesce ? `${fieldIds.join(',')}:${Object.keys(updates).sort().join(',')}` : undefined
+      );
+    },
+    [changeFields]
+  );
+
+  // Move fields by their own offsets, as one undo step (or one per run of the same coalesceKey)
+  const moveFields = useCallback(
+    (offsets: Map<string, Offset>, coalesceKey?: string) => {
+      changeFields(
+        (current) =>
+          current.map((f) => {
+            const offset = offsets.get(f.id);
+            return offset ? { ...f, x: f.x + offset.dx, y: f.y + offset.dy } : f;
+          }),
+        coalesceKey
+      );
+    },
+    [changeFields]
+  );
+
+  return {
+    pages: present.pages,
+    fields: present.fields,
+    setDesign: set,
+    resetDesign: reset,
+    changeFields,
+    updateFields,
+    moveFields,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  };
+}
@@ -18,46 +18,64 @@ export type Database = {
         Row: {
           created_at: string
           csv_data: Json | null
+          email_delivery: string
           failed_count: number
+          field_mapping: Json
+          file_name_pattern: string
           generated_count: number
           id: string
           name: string
+          output_format: string
           sent_count: number
           status: string
           template_id: string | null
+          template_variants: Json
           total_count: number
           updated_at: string
           user_id: string
+          variant_column: string | null
           zip_url: string | null
         }
         Insert: {
           created_at?: string
           csv_data?: Json | null
+          email_delivery?: string
           failed_count?: number
+          field_mapping?: Json
+          file_name_pattern?: string
           generated_count?: number
           id?: string
           name: string
+          output_format?: string
           sent_count?: number
           status?: string
           template_id?: string | null
+          template_variants?: Json
           total_count?: number
           updated_at?: string
           user_id: string
+          variant_column?: string | null
           zip_url?: string | null
         }
         Update: {
           created_at?: string
           csv_data?: Json | null
+          email_delivery?: string
           failed_count?: number
+          field_mapping?: Json
+          file_name_pattern?: string
           generated_count?: number
           id?: string
           name?: string
+          output_format?: string
           sent_count?: number
           status?: string
           template_id?: string | null
+          template_variants?: Json
           total_count?: number
           updated_at?: string
           user_id?: string
+          variant_column?: string | null
           zip_url?: string | null
         }
         Relationships: [
@@ -78,6 +96,7 @@ export type Database = {
           image_height: number
           image_url: string
           image_width: number
+          issuer_name: string | null
           name: string
           updated_at: string
           user_id: string
@@ -89,6 +108,7 @@ export type Database = {
           image_height?: number
           image_url: string
           image_width?: number
+          issuer_name?: string | null
           name: string
           updated_at?: string
           user_id: string
@@ -100,6 +120,7 @@ export type Database = {
           image_height?: number
           image_url?: string
           image_width?: number
+          issuer_name?: string | null
           name?: string
           updated_at?: string
           user_id?: string
@@ -111,6 +132,8 @@ export type Database = {
           batch_id: string
           certificate_url: string | null
           created_at: string
+          email_attempts: number
+          email_claimed_at: string | null
           email_error: string | null
           email_sent_at: string | null
           email_status: string
@@ -118,12 +141,24 @@ export type Database = {
           recipient_data: Json
           recipient_email: string | null
           recipient_name: string
+          render_attempts: number
+          render_error: string | null
+          render_status: string
+          replaces_id: string | null
+          revocation_reason: string | null
+          revoked_at: string | null
+          revoked_by: string | null
+          row_index: number
           template_id: string | null
+          verification_code: string
+          version: number
         }
         Insert: {
           batch_id: string
           certificate_url?: string | null
           created_at?: string
+          email_attempts?: number
+          email_claimed_at?: string | null
           email_error?: string | null
           email_sent_at?: string | null
           email_status?: string
@@ -131,12 +166,24 @@ export type Database = {
           recipient_data?: Json
           recipient_email?: string | null
           recipient_name: string
+          render_attempts?: number
+          render_error?: string | null
+          render_status?: string
+          replaces_id?: string | null
+          revocation_reason?: string | null
+          revoked_at?: string | null
+          revoked_by?: string | null
+          row_index?: number
           template_id?: string | null
+          verification_code?: string
+          version?: number
         }
         Update: {
           batch_id?: string
           certificate_url?: string | null
           created_at?: string
+          email_attempts?: number
+          email_claimed_at?: string | null
           email_error?: string | null
           email_sent_at?: string | null
           email_status?: string
@@ -144,7 +191,17 @@ export type Database = {
           recipient_data?: Json
           recipient_email?: string | null
           recipient_name?: string
+          render_attempts?: number
+          render_error?: string | null
+          render_status?: string
+          replaces_id?: string | null
+          revocation_reason?: string | null
+          revoked_at?: string | null
+          revoked_by?: string | null
+          row_index?: number
           template_id?: string | null
+          verification_code?: string
+          version?: number
         }
         Relationships: [
           {
@@ -154,6 +211,13 @@ export type Database = {
             referencedRelation: "batch_jobs"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "certificates_replaces_id_fkey"
+            columns: ["replaces_id"]
+            isOneToOne: true
+            referencedRelation: "certificates"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "certificates_template_id_fkey"
             columns: ["template_id"]
@@ -163,6 +227,77 @@ export type Database = {
           },
         ]
       }
+      custom_fonts: {
+        Row: {
+          created_at: string
+          family: string
+          file_path: string
+          file_url: string
+          id: string
+          style: string
+          user_id: string
+          weight: number
+        }
+        Insert: {
+          created_at?: string
+          family: string
+          file_path: string
+          file_url: string
+          id?: string
+          style?: string
+          user_id: string
+          weight?: number
+        }
+        Update: {
+          created_at?: string
+          family?: string
+          file_path?: string
+          file_url?: string
+          id?: string
+          style?: string
+          user_id?: string
+          weight?: number
+        }
+        Relationships: []
+      }
+      email_templates: {
+        Row: {
+          body_html: string
+          body_text: string
+          created_at: string
+          id: string
+          subject: string
+          template_id: string
+          updated_at: string
+        }
+        Insert: {
+          body_html: string
+          body_text: string
+          created_at?: string
+          id?: string
+          subject: string
+          template_id: string
+          updated_at?: string
+        }
+        Update: {
+          body_html?: string
+          body_text?: string
+          created_at?: string
+          id?: string
+          subject?: string
+          template_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_templates_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: true
+            referencedRelation: "certificate_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -192,47 +327,128 @@ export type Database = {
       }
       template_fields: {
         Row: {
+          content: string | null
           created_at: string
+          default_value: string | null
           field_key: string
+          field_type: string
           font_color: string
           font_family: string
+          font_italic: boolean
           font_size: number
+          font_weight: number
+          height: number | null
           id: string
+          image_fit: string
+          image_mask: string | null
           label: string
+          letter_spacing: number
+          line_height: number
+          max_height: number | null
+          max_lines: number | null
           max_width: number | null
+          min_font_size: number | null
+          page_index: number
+          shadow_blur: number
+          shadow_color: string | null
+          shadow_offset_x: number
+          shadow_offset_y: number
+          show_when: string
+          show_when_key: string | null
+          show_when_value: string | null
+          stroke_color: string | null
+          stroke_width: number
           template_id: string
           text_align: string
+          text_fit: string
+          text_transform: string
+          underline: boolean
           updated_at: string
+          width: number | null
           x: number
           y: number
         }
         Insert: {
+          content?: string | null
           created_at?: string
+          default_value?: string | null
           field_key: string
+          field_type?: string
           font_color?: string
           font_family?: string
+          font_italic?: boolean
           font_size?: number
+          font_weight?: number
+          height?: number | null
           id?: string
+          image_fit?: string
+          image_mask?: string | null
           label: string
+          letter_spacing?: number
+          line_height?: number
+          max_height?: number | null
+          max_lines?: number | null
           max_width?: number | null
+          min_font_size?: number | null
+          page_index?: number
+          shadow_blur?: number
+          shadow_color?: string | null
+          shadow_offset_x?: number
+          shadow_offset_y?: number
+          show_when?: string
+          show_when_key?: string | null
+          show_when_value?: string | null
+          stroke_color?: string | null
+          stroke_width?: number
           template_id: string
           text_align?: string
+          text_fit?: string
+          text_transform?: string
+          underline?: boolean
           updated_at?: string
+          width?: number | null
           x?: number
           y?: number
         }
         Update: {
+          content?: string | null
           created_at?: string
+          default_value?: string | null
           field_key?: string
+          field_type?: string
           font_color?: string
           font_family?: string
+          font_italic?: boolean
           font_size?: number
+          font_weight?: number
+          height?: number | null
           id?: string
+          image_fit?: string
+          image_mask?: string | null
           label?: string
+          letter_spacing?: number
+          line_height?: number
+          max_height?: number | null
+          max_lines?: number | null
           max_width?: number | null
+          min_font_size?: number | null
+          page_index?: number
+          shadow_blur?: number
+          shadow_color?: string | null
+          shadow_offset_x?: number
+          shadow_offset_y?: number
+          show_when?: string
+          show_when_key?: string | null
+          show_when_value?: string | null
+          stroke_color?: string | null
+          stroke_width?: number
           template_id?: string
           text_align?: string
+          text_fit?: string
+          text_transform?: string
+          underline?: boolean
           updated_at?: string
+          width?: number | null
           x?: number
           y?: number
         }
@@ -246,12 +462,101 @@ export type Database = {
           },
         ]
       }
+      template_pages: {
+        Row: {
+          created_at: string
+          id: string
+          image_height: number
+          image_url: string
+          image_width: number
+          page_index: number
+          template_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          image_height: number
+          image_url: string
+          image_width: number
+          page_index: number
+          template_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          image_height?: number
+          image_url?: string
+          image_width?: number
+          page_index?: number
+          template_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "template_pages_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "certificate_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      increment_batch_counts: {
+        Args: {
+          _batch_id: string
+          _failed?: number
+          _generated?: number
+          _sent?: number
+        }
+        Returns: undefined
+      }
+      generate_verification_code: {
+        Args: never
+        Returns: string
+      }
+      recompute_batch_counts: {
+        Args: {
+          _batch_id: string
+        }
+        Returns: undefined
+      }
+      reissue_certificate: {
+        Args: {
+          _certificate_id: string
+          _reason: string
+          _recipient_data: Json
+          _recipient_email: string
+          _recipient_name: string
+        }
+        Returns: string
+      }
+      retry_batch: {
+        Args: {
+          _batch_id: string
+          _certificate_ids?: string[]
+        }
+        Returns: Json
+      }
+      revoke_certificate: {
+        Args: {
+          _certificate_id: string
+          _reason: string
+        }
+        Returns: undefined
+      }
+      verify_certificate: {
+        Args: {
+          _code: string
+        }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
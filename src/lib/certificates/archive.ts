@@ -0,0 +1,93 @@
+import { strFromU8, strToU8, unzipSync, zipSync, type Zippable } from 'fflate';
+import Papa from 'papaparse';
+import { fillPlaceholders, rowValue } from './placeholders.ts';
+import type { CsvRow, FieldMapping } from './types.ts';
+
+export const DEFAULT_FILE_NAME_PATTERN = '{{name}}';
+
+export const MANIFEST_FILE_NAME = 'manifest.csv';
+
+export interface ArchiveEntry {
+  // 1-based position of the row in the uploaded CSV
+  rowNumber: number;
+  row: CsvRow;
+  certificateId: string;
+  // Reissued certificates count up from 1
+  version: number;
+  recipientName: string;
+  recipientEmail: string | null;
+  file: Uint8Array;
+}
+
+// Characters that are invalid in file names on at least one common OS
+const UNSAFE_CHARACTERS = /[\\/:*?"<>|]+/g;
+
+// Empty when nothing worth naming a file after is left, e.g. a pattern of separators around empty values
+export function fileBaseName(pattern: string, row: CsvRow, mapping: FieldMapping) {
+  // The pattern may carry its own extension (e.g. `{{name}}.pdf`); the batch's format decides the real one
+  const withoutExtension = pattern.trim().replace(/\.(pdf|png|jpe?g)$/i, '');
+  const name = fillPlaceholders(withoutExtension, (key) => rowValue(key, row, mapping))
+    .replace(UNSAFE_CHARACTERS, '-')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 120);
+  return /[\p{L}\p{N}]/u.test(name) ? name : '';
+}
+
+// File names for every entry, made unique by suffixing repeats with ` (2)`, ` (3)`…
+export function archiveFileNames(
+  entries: Pick<ArchiveEntry, 'row' | 'rowNumber'>[],
+  pattern: string,
+  mapping: FieldMapping,
+  extension: string
+) {
+  const used = new Map<string, number>();
+  return entries.map((entry) => {
+    const base = fileBaseName(pattern || DEFAULT_FILE_NAME_PATTERN, entry.row, mapping) || `certificate-${entry.rowNumber}`;
+    const count = (used.get(base.toLowerCase()) ?? 0) + 1;
+    used.set(base.toLowerCase(), count);
+    return count === 1 ? `${base}.${extension}` : `${base} (${count}).${extension}`;
+  });
+}
+
+// Bundle rendered certificates with a manifest CSV mapping each source row to its file
+export function buildBatchArchive(
+  entries: ArchiveEntry[],
+  pattern: string,
+  mapping: FieldMapping,
+  extension: string
+) {
+  const names = archiveFileNames(entries, pattern, mapping, extension);
+  const manifest = Papa.unparse(
+    entries.map((entry, i) => ({
+      row: entry.rowNumber,
+      file: names[i],
+      certificate_id: entry.certificateId,
+      recipient_name: entry.recipientName,
+      recipient_email: entry.recipientEmail ?? '',
+      version: entry.version,
+    }))
+  );
+
+  const files: Zippable = { [MANIFEST_FILE_NAME]: strToU8(manifest) };
+  entries.forEach((entry, i) => {
+    // Certificates are already compressed images or PDFs; storing them avoids wasted work
+    files[names[i]] = [entry.file, { level: 0 }];
+  });
+
+  return zipSync(files);
+}
+
+// The certificate files in an archive made by buildBatchArchive, by certificate id, so rebuilding it
+// only has to fetch the certificates it doesn't hold yet
+export function archivedFiles(archive: Uint8Array) {
+  const files = unzipSync(archive);
+  const manifest = files[MANIFEST_FILE_NAME];
+  if (!manifest) return new Map<string, Uint8Array>();
+
+  const { data } = Papa.parse<{ file: string; certificate_id: string }>(strFromU8(manifest), {
+    header: true,
+    skipEmptyLines: true,
+  });
+  return new Map(data.filter((entry) => files[entry.file]).map((entry) => [entry.certificate_id, files[entry.file]]));
+}
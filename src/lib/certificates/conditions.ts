@@ -0,0 +1,40 @@
+import { rowValue } from './placeholders.ts';
+import type { CsvRow, FieldMapping, TemplateField } from './types.ts';
+
+// When a field appears on a certificate: always, or depending on one of the row's values
+export type ShowWhen = 'always' | 'not_empty' | 'empty' | 'equals' | 'not_equals';
+
+export function toShowWhen(value?: string | null): ShowWhen {
+  return value === 'not_empty' || value === 'empty' || value === 'equals' || value === 'not_equals' ? value : 'always';
+}
+
+// Whether a rule reads a value at all; a rule without a key shows the field
+export function hasCondition(field: Pick<TemplateField, 'show_when' | 'show_when_key'>) {
+  return toShowWhen(field.show_when) !== 'always' && !!field.show_when_key?.trim();
+}
+
+// Values are compared trimmed and ignoring case, so a cell of "a " still equals "A"
+function sameValue(a: string, b: string) {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+export function isFieldVisible(
+  field: Pick<TemplateField, 'show_when' | 'show_when_key' | 'show_when_value'>,
+  row: CsvRow,
+  mapping: FieldMapping
+) {
+  if (!hasCondition(field)) return true;
+  const value = rowValue(field.show_when_key!.trim(), row, mapping);
+  switch (toShowWhen(field.show_when)) {
+    case 'not_empty':
+      return value.trim() !== '';
+    case 'empty':
+      return value.trim() === '';
+    case 'equals':
+      return sameValue(value, field.show_when_value ?? '');
+    case 'not_equals':
+      return !sameValue(value, field.show_when_value ?? '');
+    default:
+      return true;
+  }
+}
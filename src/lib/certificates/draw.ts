@@ -0,0 +1,170 @@
+import { baselineOffset, imagePlacement, lineOffsetX, toCanvasFont, underlineOffset, underlineThickness } from './layout.ts';
+import { QR_QUIET_ZONE, qrDarkRuns } from './qr.ts';
+import type { CertificateLayout, ImageElement, QrElement, TextElement } from './types.ts';
+
+// The subset of CanvasRenderingContext2D the renderer needs, so any canvas implementation will do
+export interface Canvas2D {
+  font: string;
+  fillStyle: unknown;
+  strokeStyle: unknown;
+  lineWidth: number;
+  lineJoin: string;
+  shadowColor: string;
+  shadowBlur: number;
+  shadowOffsetX: number;
+  shadowOffsetY: number;
+  textAlign: string;
+  textBaseline: string;
+  fillText(text: string, x: number, y: number): void;
+  strokeText(text: string, x: number, y: number): void;
+  measureText(text: string): {
+    width: number;
+    fontBoundingBoxAscent?: number;
+    fontBoundingBoxDescent?: number;
+    actualBoundingBoxAscent?: number;
+    actualBoundingBoxDescent?: number;
+  };
+  fillRect(x: number, y: number, w: number, h: number): void;
+  drawImage(image: unknown, dx: number, dy: number, dw: number, dh: number): void;
+  save(): void;
+  restore(): void;
+  beginPath(): void;
+  moveTo(x: number, y: number): void;
+  lineTo(x: number, y: number): void;
+  stroke(): void;
+  rect(x: number, y: number, w: number, h: number): void;
+  ellipse(x: number, y: number, radiusX: number, radiusY: number, rotation: number, startAngle: number, endAngle: number): void;
+  clip(): void;
+}
+
+// A decoded image and its natural size, which each canvas implementation reports differently
+export interface LoadedImage {
+  source: unknown;
+  width: number;
+  height: number;
+}
+
+// Fill, then outline, each run of text; with letter spacing every character is its own run,
+// advanced by its width plus the spacing like Konva does
+function drawRun(ctx: Canvas2D, element: TextElement, text: string, x: number, y: number) {
+  const runs = element.letterSpacing ? Array.from(text) : [text];
+  let runX = x;
+  for (const run of runs) {
+    ctx.fillText(run, runX, y);
+    if (element.stroke) ctx.strokeText(run, runX, y);
+    runX += ctx.measureText(run).width + element.letterSpacing;
+  }
+}
+
+function drawText(ctx: Canvas2D, element: TextElement) {
+  if (!element.text) return;
+
+  ctx.save();
+  ctx.font = toCanvasFont(element.font);
+  ctx.fillStyle = element.color;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'alphabetic';
+  if (element.stroke) {
+    ctx.strokeStyle = element.stroke.color;
+    ctx.lineWidth = element.stroke.width;
+    ctx.lineJoin = 'round';
+  }
+  if (element.shadow) {
+    ctx.shadowColor = element.shadow.color;
+    ctx.shadowBlur = element.shadow.blur;
+    ctx.shadowOffsetX = element.shadow.offsetX;
+    ctx.shadowOffsetY = element.shadow.offsetY;
+  }
+
+  // Not every canvas implementation reports font metrics; fall back to typical Latin proportions
+  const metrics = ctx.measureText('M');
+  const ascent = metrics.fontBoundingBoxAscent ?? metrics.actualBoundingBoxAscent ?? element.font.size * 0.8;
+  const descent = metrics.fontBoundingBoxDescent ?? metrics.actualBoundingBoxDescent ?? element.font.size * 0.2;
+  const lineHeightPx = element.font.size * element.lineHeight;
+  const baseline = baselineOffset(ascent, descent, lineHeightPx);
+
+  element.lines.forEach((line, i) => {
+    const x = element.x + lineOffsetX(element, line.width);
+    const y = element.y + i * lineHeightPx + baseline;
+    drawRun(ctx, element, line.text, x, y);
+    if (element.underline) {
+      const underlineY = y + underlineOffset(element.font.size);
+      ctx.beginPath();
+      ctx.moveTo(x, underlineY);
+      ctx.lineTo(x + Math.round(line.width), underlineY);
+      ctx.lineWidth = underlineThickness(element.font.size);
+      ctx.strokeStyle = element.color;
+      ctx.stroke();
+      if (element.stroke) {
+        ctx.strokeStyle = element.stroke.color;
+        ctx.lineWidth = element.stroke.width;
+      }
+    }
+  });
+  ctx.restore();
+}
+
+// Drawn on a white square so the code scans on any background; also used by the Konva previews
+export function drawQr(ctx: Pick<Canvas2D, 'fillStyle' | 'fillRect' | 'save' | 'restore'>, element: QrElement) {
+  if (element.modules.length === 0) return;
+
+  const cell = element.size / (element.modules.length + 2 * QR_QUIET_ZONE);
+  const origin = QR_QUIET_ZONE * cell;
+
+  ctx.save();
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(element.x, element.y, element.size, element.size);
+  ctx.fillStyle = element.color;
+  for (const run of qrDarkRuns(element.modules)) {
+    ctx.fillRect(element.x + origin + run.col * cell, element.y + origin + run.row * cell, run.length * cell, cell);
+  }
+  ctx.restore();
+}
+
+// Trace the element's clip shape: its box, or the ellipse inscribed in it
+export function traceImageClip(ctx: Pick<Canvas2D, 'beginPath' | 'rect' | 'ellipse'>, element: ImageElement) {
+  ctx.beginPath();
+  if (element.circle) {
+    const rx = element.width / 2;
+    const ry = element.height / 2;
+    ctx.ellipse(element.x + rx, element.y + ry, rx, ry, 0, 0, Math.PI * 2);
+  } else {
+    ctx.rect(element.x, element.y, element.width, element.height);
+  }
+}
+
+// Also used by the Konva previews
+export function drawImageElement(
+  ctx: Pick<Canvas2D, 'drawImage' | 'save' | 'restore' | 'beginPath' | 'rect' | 'ellipse' | 'clip'>,
+  element: ImageElement,
+  image: LoadedImage
+) {
+  const placement = imagePlacement(element, image.width, image.height);
+  ctx.save();
+  traceImageClip(ctx, element);
+  ctx.clip();
+  ctx.drawImage(image.source, placement.x, placement.y, placement.width, placement.height);
+  ctx.restore();
+}
+
+// `images` holds the loaded image for every image element's src; elements without one are left out
+export function drawCertificate(
+  ctx: Canvas2D,
+  layout: CertificateLayout,
+  background: unknown,
+  images: Map<string, LoadedImage> = new Map()
+) {
+  if (background) {
+    ctx.drawImage(background, 0, 0, layout.width, layout.height);
+  }
+  layout.elements.forEach((element) => {
+    if (element.kind === 'qr') {
+      drawQr(ctx, element);
+    } else if (element.kind === 'image') {
+      const image = images.get(element.src);
+      if (image) drawImageElement(ctx, element, image);
+    } else {
+      drawText(ctx, element);
+    }
+  });
+}
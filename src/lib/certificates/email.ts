@@ -0,0 +1,76 @@
+import { fillPlaceholders, rowValue } from './placeholders.ts';
+import type { CsvRow, FieldMapping } from './types.ts';
+
+export interface EmailTemplate {
+  subject: string;
+  body_html: string;
+  body_text: string;
+}
+
+export interface EmailContext {
+  row: CsvRow;
+  mapping: FieldMapping;
+  templateName: string;
+  certificateUrl: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Placeholders available in every email on top of the template's field keys
+export const EMAIL_BUILTIN_PLACEHOLDERS = ['certificate_url', 'certificate_name'] as const;
+
+export const DEFAULT_EMAIL_TEMPLATE: EmailTemplate = {
+  subject: 'Your certificate: {{certificate_name}}',
+  body_html: `<p>Hi {{name}},</p>
+<p>Congratulations! Your certificate is ready.</p>
+<p><a href="{{certificate_url}}">View your certificate</a></p>`,
+  body_text: `Hi {{name}},
+
+Congratulations! Your certificate is ready.
+
+{{certificate_url}}
+`,
+};
+
+export function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function emailValue(key: string, { row, mapping, templateName, certificateUrl }: EmailContext) {
+  if (key === 'certificate_url') return certificateUrl;
+  if (key === 'certificate_name') return templateName;
+  return rowValue(key, row, mapping);
+}
+
+// Fill a template for one recipient; values are escaped in the HTML body but not in the subject or text
+export function renderEmail(template: EmailTemplate, context: EmailContext): RenderedEmail {
+  const resolve = (key: string) => emailValue(key, context);
+
+  return {
+    // Header values must stay on one line
+    subject: fillPlaceholders(template.subject, resolve).replace(/\s+/g, ' ').trim(),
+    html: fillPlaceholders(template.body_html, resolve, { escape: escapeHtml }),
+    text: fillPlaceholders(template.body_text, resolve),
+  };
+}
+
+// Add a link to the certificate to a message whose template has none, e.g. when the file was too
+// large to attach; bodies that already carry the link are left as they are
+export function ensureCertificateLink(email: RenderedEmail, certificateUrl: string): RenderedEmail {
+  const href = escapeHtml(certificateUrl);
+  return {
+    ...email,
+    html: email.html.includes(href) ? email.html : `${email.html}\n<p><a href="${href}">Download your certificate</a></p>`,
+    text: email.text.includes(certificateUrl)
+      ? email.text
+      : `${email.text.trimEnd()}\n\nDownload your certificate: ${certificateUrl}\n`,
+  };
+}
@@ -0,0 +1,138 @@
+import type { FontSpec, MeasureText, TextLine } from './types.ts';
+
+// How a text field keeps a long value inside its box:
+// `shrink` lowers the font size, `wrap` breaks it into lines and `truncate` cuts it off with an ellipsis
+export type TextFit = 'none' | 'shrink' | 'wrap' | 'truncate';
+
+export const DEFAULT_MIN_FONT_SIZE = 8;
+
+export const ELLIPSIS = '…';
+
+export function toTextFit(value?: string | null): TextFit {
+  return value === 'shrink' || value === 'wrap' || value === 'truncate' ? value : 'none';
+}
+
+// Limits of the box; any of them may be absent
+export interface FitBox {
+  maxWidth?: number;
+  maxHeight?: number;
+  // Smallest font size `shrink` may go down to
+  minSize?: number;
+  // Most lines `wrap` may produce
+  maxLines?: number;
+  lineHeight: number;
+}
+
+export interface FittedText {
+  lines: TextLine[];
+  font: FontSpec;
+}
+
+function measureLines(texts: string[], font: FontSpec, measure: MeasureText): TextLine[] {
+  return texts.map((text) => ({ text, width: measure(text, font) }));
+}
+
+function fits(lines: TextLine[], font: FontSpec, box: FitBox) {
+  const widest = Math.max(0, ...lines.map((l) => l.width));
+  return (
+    (!box.maxWidth || widest <= box.maxWidth) &&
+    (!box.maxHeight || lines.length * font.size * box.lineHeight <= box.maxHeight)
+  );
+}
+
+// Cut `text` down until it, followed by an ellipsis, fits the width. `force` adds the ellipsis
+// even when the text already fits, for a line that has more text after it.
+function truncateLine(text: string, font: FontSpec, maxWidth: number, measure: MeasureText, force = false) {
+  if (!force && measure(text, font) <= maxWidth) return text;
+  const chars = Array.from(text.trimEnd());
+  while (chars.length > 0 && measure(`${chars.join('').trimEnd()}${ELLIPSIS}`, font) > maxWidth) {
+    chars.pop();
+  }
+  return `${chars.join('').trimEnd()}${ELLIPSIS}`;
+}
+
+// Break one paragraph into lines no wider than `maxWidth`, splitting words that don't fit on their own
+function wrapParagraph(paragraph: string, font: FontSpec, maxWidth: number, measure: MeasureText) {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (measure(candidate, font) <= maxWidth) {
+      current = candidate;
+      continue;
+    }
+    if (current) lines.push(current);
+    current = '';
+    for (const char of Array.from(word)) {
+      if (current && measure(current + char, font) > maxWidth) {
+        lines.push(current);
+        current = '';
+      }
+      current += char;
+    }
+  }
+  lines.push(current);
+  return lines;
+}
+
+// How many lines of this size the box allows
+function lineLimit(font: FontSpec, box: FitBox) {
+  const byHeight = box.maxHeight ? Math.floor(box.maxHeight / (font.size * box.lineHeight)) : Infinity;
+  return Math.max(1, Math.min(box.maxLines || Infinity, byHeight));
+}
+
+// Drop the lines past the limit, ending the last one kept with an ellipsis
+function limitLines(lines: string[], font: FontSpec, box: FitBox, measure: MeasureText) {
+  const limit = lineLimit(font, box);
+  if (lines.length <= limit) return lines;
+  const kept = lines.slice(0, limit);
+  kept[limit - 1] = truncateLine(kept[limit - 1], font, box.maxWidth ?? Infinity, measure, true);
+  return kept;
+}
+
+function shrink(paragraphs: string[], font: FontSpec, box: FitBox, measure: MeasureText): FittedText {
+  const minSize = Math.min(font.size, box.minSize || DEFAULT_MIN_FONT_SIZE);
+  let lines = measureLines(paragraphs, font, measure);
+  if (fits(lines, font, box)) return { lines, font };
+
+  // Text width grows with the font size, so scale straight to the limit, then step down
+  // for whatever rounding the measurement adds
+  const widest = Math.max(0, ...lines.map((l) => l.width));
+  const ratio = Math.min(
+    box.maxWidth && widest ? box.maxWidth / widest : 1,
+    box.maxHeight ? box.maxHeight / (lines.length * font.size * box.lineHeight) : 1
+  );
+  let size = Math.max(minSize, Math.floor(font.size * ratio * 10) / 10);
+  let sized = { ...font, size };
+  lines = measureLines(paragraphs, sized, measure);
+  while (!fits(lines, sized, box) && size > minSize) {
+    size = Math.max(minSize, size - 0.5);
+    sized = { ...font, size };
+    lines = measureLines(paragraphs, sized, measure);
+  }
+  return { lines, font: sized };
+}
+
+// Fit a value into the box. The result can still overflow: `none` never changes the text, and
+// `shrink` stops at its minimum size.
+export function fitText(text: string, font: FontSpec, fit: TextFit, box: FitBox, measure: MeasureText): FittedText {
+  const paragraphs = text.split('\n');
+
+  if (fit === 'shrink') {
+    return shrink(paragraphs, font, box, measure);
+  }
+
+  if (fit === 'wrap' && box.maxWidth) {
+    const maxWidth = box.maxWidth;
+    const wrapped = paragraphs.flatMap((p) => wrapParagraph(p, font, maxWidth, measure));
+    return { lines: measureLines(limitLines(wrapped, font, box, measure), font, measure), font };
+  }
+
+  if (fit === 'truncate') {
+    const maxWidth = box.maxWidth ?? Infinity;
+    const cut = paragraphs.map((p) => truncateLine(p, font, maxWidth, measure));
+    return { lines: measureLines(limitLines(cut, font, box, measure), font, measure), font };
+  }
+
+  return { lines: measureLines(paragraphs, font, measure), font };
+}
@@ -0,0 +1,48 @@
+// A face (one weight and style) of a font family the user uploaded
+export interface CustomFont {
+  family: string;
+  weight: number;
+  // `normal` or `italic`
+  style: string;
+  file_url: string;
+}
+
+// Font files the editor, the browser and the renderers can all read
+export const FONT_FILE_EXTENSIONS = ['ttf', 'otf', 'woff2'];
+
+export const FONT_WEIGHTS: Record<number, string> = {
+  100: 'Thin',
+  200: 'Extra Light',
+  300: 'Light',
+  400: 'Regular',
+  500: 'Medium',
+  600: 'Semi Bold',
+  700: 'Bold',
+  800: 'Extra Bold',
+  900: 'Black',
+};
+
+export function isFontFile(fileName: string) {
+  return FONT_FILE_EXTENSIONS.includes(fileName.split('.').pop()?.toLowerCase() ?? '');
+}
+
+export function fontFaceName(font: Pick<CustomFont, 'weight' | 'style'>) {
+  const weight = FONT_WEIGHTS[font.weight] ?? String(font.weight);
+  return font.style === 'italic' ? `${weight} Italic` : weight;
+}
+
+export function customFamilies(fonts: Pick<CustomFont, 'family'>[]) {
+  return [...new Set(fonts.map((font) => font.family))].sort((a, b) => a.localeCompare(b));
+}
+
+// The family's face closest to the requested weight and style, as a browser would pick it:
+// matching style first, then the nearest weight. Undefined when the family isn't a custom one.
+export function pickFontFace<T extends CustomFont>(fonts: T[], family: string, weight = 400, italic = false) {
+  const faces = fonts.filter((font) => font.family === family);
+  const style = italic ? 'italic' : 'normal';
+  const candidates = faces.some((font) => font.style === style) ? faces.filter((font) => font.style === style) : faces;
+  return candidates.reduce<T | undefined>(
+    (best, font) => (!best || Math.abs(font.weight - weight) < Math.abs(best.weight - weight) ? font : best),
+    undefined
+  );
+}
@@ -0,0 +1,11 @@
+export type OutputFormat = 'png' | 'jpeg' | 'pdf';
+
+export const OUTPUT_FORMATS: Record<OutputFormat, { label: string; extension: string; mimeType: string }> = {
+  png: { label: 'PNG image', extension: 'png', mimeType: 'image/png' },
+  jpeg: { label: 'JPEG image', extension: 'jpg', mimeType: 'image/jpeg' },
+  pdf: { label: 'PDF document', extension: 'pdf', mimeType: 'application/pdf' },
+};
+
+export function toOutputFormat(value: string | null | undefined): OutputFormat {
+  return value === 'jpeg' || value === 'pdf' ? value : 'png';
+}
@@ -0,0 +1,104 @@
+import { format, isValid, parseISO } from 'date-fns';
+import { transformText } from './text.ts';
+
+// One step after the key in `{{date|format:"MMMM d, yyyy"}}`
+export interface Formatter {
+  name: string;
+  arg?: string;
+}
+
+export interface PlaceholderExpression {
+  key: string;
+  formatters: Formatter[];
+}
+
+// The formatters a placeholder can use, with an example of each for the editors' help text
+export const FORMATTER_EXAMPLES = [
+  '{{date|format:"MMMM d, yyyy"}}',
+  '{{name|title}}',
+  '{{name|upper}}',
+  '{{score|number:1}}',
+  '{{rank|ordinal}}',
+];
+
+// Split on `|` outside quotes, so a quoted argument may contain one
+function splitSteps(expression: string) {
+  return (expression.match(/(?:"[^"]*"|'[^']*'|[^|])+/g) ?? []).map((part) => part.trim());
+}
+
+function unquote(value: string) {
+  return /^(["']).*\1$/.test(value) ? value.slice(1, -1) : value;
+}
+
+// `date|format:"MMMM d, yyyy"` → key `date` with one `format` step
+export function parsePlaceholder(expression: string): PlaceholderExpression {
+  const [key = '', ...steps] = splitSteps(expression);
+  return {
+    key,
+    formatters: steps.filter(Boolean).map((step) => {
+      const separator = step.indexOf(':');
+      if (separator < 0) return { name: step.toLowerCase() };
+      return { name: step.slice(0, separator).trim().toLowerCase(), arg: unquote(step.slice(separator + 1).trim()) };
+    }),
+  };
+}
+
+// ISO dates (`2026-03-04`) are read as local dates; anything else as the JavaScript engine reads it
+export function parseDate(value: string) {
+  const iso = parseISO(value.trim());
+  if (isValid(iso)) return iso;
+  const date = new Date(value.trim());
+  return isValid(date) ? date : null;
+}
+
+// "1,234.5" and "1234.5" both read as numbers; thousands separators are dropped
+function parseNumber(value: string) {
+  const cleaned = value.trim().replace(/,/g, '');
+  return cleaned && Number.isFinite(Number(cleaned)) ? Number(cleaned) : null;
+}
+
+export function ordinal(n: number) {
+  const suffixes: Record<string, string> = { one: 'st', two: 'nd', few: 'rd', other: 'th' };
+  return `${n}${suffixes[new Intl.PluralRules('en-US', { type: 'ordinal' }).select(n)]}`;
+}
+
+// Values a formatter can't read (a date that isn't one, text for `number`) pass through unchanged,
+// as do unknown formatters, so a typo never blanks a certificate
+function applyFormatter(value: string, { name, arg }: Formatter) {
+  switch (name) {
+    case 'format':
+    case 'date': {
+      const date = parseDate(value);
+      if (!date) return value;
+      try {
+        return format(date, arg || 'MMMM d, yyyy');
+      } catch {
+        return value;
+      }
+    }
+    case 'upper':
+    case 'uppercase':
+      return transformText(value, 'uppercase');
+    case 'lower':
+    case 'lowercase':
+      return transformText(value, 'lowercase');
+    case 'title':
+      return transformText(value, 'title');
+    case 'number': {
+      const n = parseNumber(value);
+      if (n === null) return value;
+      const digits = Math.min(20, Math.max(0, Math.floor(Number(arg) || 0)));
+      return n.toLocaleString('en-US', { minimumFractionDigits: digits, maximumFractionDigits: digits });
+    }
+    case 'ordinal': {
+      const n = parseNumber(value);
+      return n === null || !Number.isInteger(n) ? value : ordinal(n);
+    }
+    default:
+      return value;
+  }
+}
+
+export function applyFormatters(value: string, formatters: Formatter[]) {
+  return formatters.reduce(applyFormatter, value);
+}
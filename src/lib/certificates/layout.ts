@@ -0,0 +1,321 @@
+import type {
+  CertificateLayout,
+  CertificateTemplate,
+  CsvRow,
+  FieldMapping,
+  FontSpec,
+  ImageElement,
+  LayoutElement,
+  MeasureText,
+  QrElement,
+  TemplateField,
+  TemplatePage,
+  TextAlign,
+  TextElement,
+  VerificationInfo,
+} from './types.ts';
+import { hasCondition, isFieldVisible } from './conditions.ts';
+import { fitText, toTextFit } from './fit.ts';
+import { fillPlaceholders, placeholderKeys, rowValue } from './placeholders.ts';
+import { qrModules } from './qr.ts';
+import { toTextTransform, transformText } from './text.ts';
+import { isVerificationField, isVerificationKey, verificationValue } from './verification.ts';
+
+// Konva's default line height, used when a field doesn't set its own
+export const LINE_HEIGHT = 1;
+
+export const DEFAULT_QR_SIZE = 120;
+
+export const DEFAULT_IMAGE_SIZE = 160;
+
+export interface LayoutOptions {
+  // Template previews without data: show `{{field_key}}` for unmapped or empty values and every field
+  // whatever its conditions. Otherwise (rows' previews, final output) empty fields stay blank and
+  // conditions hide fields.
+  showPlaceholders?: boolean;
+  // Values for verification fields; without them those fields behave like unmapped ones
+  verification?: VerificationInfo;
+  // Where image file names from the CSV are looked up; full URLs are used as they are
+  assetBaseUrl?: string;
+}
+
+export function toTextAlign(value: string): TextAlign {
+  return value === 'left' || value === 'right' ? value : 'center';
+}
+
+// Konva's fontStyle for a font: `normal`, or the style and weight such as `italic 700`
+export function toFontStyle(font: FontSpec) {
+  const weight = font.weight ?? 400;
+  if (!font.italic && weight === 400) return 'normal';
+  return font.italic ? `italic ${weight}` : String(weight);
+}
+
+// CSS font shorthand in the same form Konva builds for its Text nodes
+export function toCanvasFont(font: FontSpec) {
+  const family = font.family
+    .split(',')
+    .map((name) => {
+      const trimmed = name.trim();
+      return trimmed.includes(' ') && !/["']/.test(trimmed) ? `"${trimmed}"` : trimmed;
+    })
+    .join(', ');
+  return `${toFontStyle(font)} normal ${font.size}px ${family}`;
+}
+
+// A text field whose `content` mixes static text with placeholders, e.g. "awarded to {{name}} on {{date}}"
+export function isTextTemplate(field: Pick<TemplateField, 'field_type' | 'content'>) {
+  return (!field.field_type || field.field_type === 'text') && !!field.content;
+}
+
+// QR codes, images and text templates take their value from `content` rather than a single CSV column
+function isContentField(field: Pick<TemplateField, 'field_type' | 'content'>) {
+  return field.field_type === 'qr' || field.field_type === 'image' || isTextTemplate(field);
+}
+
+// Turn a bare file name into a URL under the asset folder
+export function resolveImageSource(value: string, assetBaseUrl?: string) {
+  const source = value.trim();
+  if (!source || !assetBaseUrl || /^[a-z][a-z0-9+.-]*:/i.test(source)) return source;
+  return `${assetBaseUrl.replace(/\/+$/, '')}/${source.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+export function getFieldValue(
+  field: Pick<TemplateField, 'field_key' | 'field_type' | 'content' | 'default_value'>,
+  row: CsvRow,
+  mapping: FieldMapping,
+  { showPlaceholders = false, verification, assetBaseUrl }: LayoutOptions = {}
+) {
+  if (isContentField(field)) {
+    // A placeholder would only make an image URL unloadable
+    const placeholders = showPlaceholders && field.field_type !== 'image';
+    const filled = fillPlaceholders(
+      field.content ?? '',
+      (key) => (isVerificationKey(key) ? verificationValue(key, verification) : rowValue(key, row, mapping)),
+      { fallback: (key) => field.default_value || (placeholders ? `{{${key}}}` : '') }
+    );
+    return field.field_type === 'image' ? resolveImageSource(filled, assetBaseUrl) : filled;
+  }
+
+  if (isVerificationField(field)) {
+    if (verification) {
+      return verificationValue(field.field_type!, verification);
+    }
+  } else {
+    const csvColumn = mapping[field.field_key];
+    if (csvColumn && row[csvColumn]) {
+      return row[csvColumn];
+    }
+    if (field.default_value) {
+      return field.default_value;
+    }
+  }
+  return showPlaceholders ? `{{${field.field_key}}}` : '';
+}
+
+// Keys that need a CSV column: text fields' own keys plus the placeholders inside text templates, QR and image
+// contents, and the keys visibility conditions read
+export function fieldDataKeys(
+  fields: Pick<TemplateField, 'field_key' | 'field_type' | 'content' | 'show_when' | 'show_when_key'>[]
+) {
+  const keys = new Set<string>();
+  for (const field of fields) {
+    if (isContentField(field)) {
+      placeholderKeys(field.content ?? '')
+        .filter((key) => !isVerificationKey(key))
+        .forEach((key) => keys.add(key));
+    } else if (!isVerificationField(field)) {
+      keys.add(field.field_key);
+    }
+    if (hasCondition(field) && !isVerificationKey(field.show_when_key!.trim())) {
+      keys.add(field.show_when_key!.trim());
+    }
+  }
+  return [...keys];
+}
+
+// Lay out a single text field. The field's x/y is its anchor: the left edge,
+// centre or right edge of the text (per text_align) and the top of the first line.
+// Long values are fitted into max_width/max_height according to the field's text_fit.
+export function layoutText(field: TemplateField, value: string, measure: MeasureText): TextElement {
+  const text = transformText(value, toTextTransform(field.text_transform));
+  const lineHeight = Number(field.line_height) || LINE_HEIGHT;
+  const letterSpacing = Number(field.letter_spacing) || 0;
+  // Konva counts the spacing after every character, the last one included
+  const spacedMeasure: MeasureText = (line, font) => measure(line, font) + letterSpacing * line.length;
+
+  const { lines, font } = fitText(
+    text,
+    {
+      family: field.font_family,
+      size: Number(field.font_size),
+      weight: Number(field.font_weight) || 400,
+      italic: !!field.font_italic,
+    },
+    toTextFit(field.text_fit),
+    {
+      maxWidth: Number(field.max_width) || undefined,
+      maxHeight: Number(field.max_height) || undefined,
+      minSize: Number(field.min_font_size) || undefined,
+      maxLines: Number(field.max_lines) || undefined,
+      lineHeight,
+    },
+    letterSpacing ? spacedMeasure : measure
+  );
+  const align = toTextAlign(field.text_align);
+  const contentWidth = Math.max(0, ...lines.map((l) => l.width));
+  const width = field.max_width ? Number(field.max_width) : contentWidth;
+  const offsetX = align === 'center' ? width / 2 : align === 'right' ? width : 0;
+  const x = Number(field.x);
+  const y = Number(field.y);
+
+  return {
+    kind: 'text',
+    id: field.id,
+    text,
+    lines,
+    x: x - offsetX,
+    y,
+    width,
+    height: lines.length * font.size * lineHeight,
+    offsetX,
+    font,
+    lineHeight,
+    color: field.font_color,
+    align,
+    letterSpacing,
+    underline: !!field.underline,
+    stroke:
+      field.stroke_color && Number(field.stroke_width) > 0
+        ? { color: field.stroke_color, width: Number(field.stroke_width) }
+        : undefined,
+    shadow: field.shadow_color
+      ? {
+          color: field.shadow_color,
+          blur: Number(field.shadow_blur) || 0,
+          offsetX: Number(field.shadow_offset_x) || 0,
+          offsetY: Number(field.shadow_offset_y) || 0,
+        }
+      : undefined,
+  };
+}
+
+// A QR code is a square with its top-left corner at the field's x/y
+export function layoutQr(field: TemplateField, text: string): QrElement {
+  return {
+    kind: 'qr',
+    id: field.id,
+    text,
+    x: Number(field.x),
+    y: Number(field.y),
+    size: Number(field.width) || DEFAULT_QR_SIZE,
+    color: field.font_color,
+    modules: qrModules(text),
+  };
+}
+
+// An image is fitted into the box whose top-left corner is the field's x/y
+export function layoutImage(field: TemplateField, src: string): ImageElement {
+  return {
+    kind: 'image',
+    id: field.id,
+    src,
+    x: Number(field.x),
+    y: Number(field.y),
+    width: Number(field.width) || DEFAULT_IMAGE_SIZE,
+    height: Number(field.height) || DEFAULT_IMAGE_SIZE,
+    fit: field.image_fit === 'cover' ? 'cover' : 'contain',
+    circle: field.image_mask === 'circle',
+  };
+}
+
+export function layoutField(field: TemplateField, text: string, measure: MeasureText): LayoutElement {
+  if (field.field_type === 'qr') return layoutQr(field, text);
+  if (field.field_type === 'image') return layoutImage(field, text);
+  return layoutText(field, text, measure);
+}
+
+// Where to draw an image of the given natural size: centred in the element's box, scaled to fit
+// inside it (`contain`) or to fill it (`cover`, which overflows the box; renderers clip to it)
+export function imagePlacement(element: ImageElement, naturalWidth: number, naturalHeight: number) {
+  const scaleX = element.width / naturalWidth;
+  const scaleY = element.height / naturalHeight;
+  const scale = element.fit === 'cover' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+  const width = naturalWidth * scale;
+  const height = naturalHeight * scale;
+  return {
+    x: element.x + (element.width - width) / 2,
+    y: element.y + (element.height - height) / 2,
+    width,
+    height,
+  };
+}
+
+// Horizontal position of a line inside its element's box
+export function lineOffsetX(element: TextElement, lineWidth: number) {
+  if (element.align === 'center') return (element.width - lineWidth) / 2;
+  if (element.align === 'right') return element.width - lineWidth;
+  return 0;
+}
+
+// Distance from a line's top to its alphabetic baseline, matching Konva's text rendering
+export function baselineOffset(ascent: number, descent: number, lineHeightPx: number) {
+  return (ascent - descent) / 2 + lineHeightPx / 2;
+}
+
+// Where Konva draws an underline: this far below the baseline, and this thick
+export function underlineOffset(fontSize: number) {
+  return Math.round(fontSize / 4);
+}
+
+export function underlineThickness(fontSize: number) {
+  return fontSize / 15;
+}
+
+// A template's pages in order; templates saved before pages existed have just their own background
+export function templatePages(
+  template: Pick<CertificateTemplate, 'image_url' | 'image_width' | 'image_height'>,
+  pages?: TemplatePage[] | null
+): TemplatePage[] {
+  if (!pages || pages.length === 0) {
+    return [{ page_index: 0, image_url: template.image_url, image_width: template.image_width, image_height: template.image_height }];
+  }
+  return [...pages].sort((a, b) => a.page_index - b.page_index);
+}
+
+export function pageFields<T extends Pick<TemplateField, 'page_index'>>(fields: T[], pageIndex: number) {
+  return fields.filter((field) => (field.page_index ?? 0) === pageIndex);
+}
+
+// Lay out one page: `page` supplies the background and size, and only the fields on it should be passed.
+// Fields whose conditions don't match the row are left out.
+export function layoutCertificate(
+  page: Pick<CertificateTemplate, 'image_url' | 'image_width' | 'image_height'>,
+  fields: TemplateField[],
+  row: CsvRow,
+  mapping: FieldMapping,
+  measure: MeasureText,
+  options: LayoutOptions = {}
+): CertificateLayout {
+  return {
+    width: page.image_width,
+    height: page.image_height,
+    backgroundUrl: page.image_url,
+    elements: fields
+      .filter((field) => options.showPlaceholders || isFieldVisible(field, row, mapping))
+      .map((field) => layoutField(field, getFieldValue(field, row, mapping, options), measure)),
+  };
+}
+
+// Lay out every page of a certificate, each with its own fields
+export function layoutPages(
+  pages: TemplatePage[],
+  fields: TemplateField[],
+  row: CsvRow,
+  mapping: FieldMapping,
+  measure: MeasureText,
+  options: LayoutOptions = {}
+): CertificateLayout[] {
+  return pages.map((page) =>
+    layoutCertificate(page, pageFields(fields, page.page_index), row, mapping, measure, options)
+  );
+}
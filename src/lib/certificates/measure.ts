@@ -0,0 +1,13 @@
+// Browser text measurement, matching what Konva uses for its Text nodes
+import { toCanvasFont } from './layout.ts';
+import type { MeasureText } from './types.ts';
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+export const measureText: MeasureText = (text, font) => {
+  if (!measureContext) {
+    measureContext = document.createElement('canvas').getContext('2d');
+  }
+  measureContext.font = toCanvasFont(font);
+  return measureContext.measureText(text).width;
+};
@@ -0,0 +1,24 @@
+import { OUTPUT_FORMATS, type OutputFormat } from './formats.ts';
+
+export const STORAGE_BUCKET = 'certificates';
+
+export const ARCHIVE_FILE_NAME = 'certificates.zip';
+
+// Generated files live under `{user_id}/generated/…`, which the bucket's policies expose publicly
+export function generatedPath(userId: string, batchId: string, fileName: string) {
+  return `${userId}/generated/${batchId}/${fileName}`;
+}
+
+// Images placed on certificates (signatures, logos, recipient photos) live under `{user_id}/assets/…`
+export function assetPath(userId: string, fileName: string) {
+  return `${userId}/assets/${fileName}`;
+}
+
+// Uploaded font files live under `{user_id}/fonts/…`
+export function fontPath(userId: string, fileName: string) {
+  return `${userId}/fonts/${fileName}`;
+}
+
+export function certificateFileName(certificateId: string, format: OutputFormat) {
+  return `${certificateId}.${OUTPUT_FORMATS[format].extension}`;
+}
@@ -0,0 +1,279 @@
+import {
+  LineJoinStyle,
+  PDFDocument,
+  PDFFont,
+  PDFImage,
+  PDFPage,
+  StandardFonts,
+  TextRenderingMode,
+  clip,
+  drawEllipsePath,
+  endPath,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle,
+  rgb,
+  setCharacterSpacing,
+  setLineJoin,
+  setLineWidth,
+  setStrokingColor,
+  setTextRenderingMode,
+} from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import { drawQr, type Canvas2D } from './draw.ts';
+import { pickFontFace, type CustomFont } from './fonts.ts';
+import {
+  baselineOffset,
+  imagePlacement,
+  layoutPages,
+  lineOffsetX,
+  underlineOffset,
+  underlineThickness,
+  type LayoutOptions,
+} from './layout.ts';
+import type {
+  CertificateTemplate,
+  CsvRow,
+  FieldMapping,
+  FontSpec,
+  ImageElement,
+  MeasureText,
+  TemplateField,
+  TemplatePage,
+} from './types.ts';
+
+const HELVETICA = [
+  StandardFonts.Helvetica,
+  StandardFonts.HelveticaBold,
+  StandardFonts.HelveticaOblique,
+  StandardFonts.HelveticaBoldOblique,
+];
+const TIMES = [
+  StandardFonts.TimesRoman,
+  StandardFonts.TimesRomanBold,
+  StandardFonts.TimesRomanItalic,
+  StandardFonts.TimesRomanBoldItalic,
+];
+const COURIER = [
+  StandardFonts.Courier,
+  StandardFonts.CourierBold,
+  StandardFonts.CourierOblique,
+  StandardFonts.CourierBoldOblique,
+];
+
+// Editor fonts mapped to the closest of the 14 standard PDF fonts, as regular, bold, italic and bold italic
+const STANDARD_FONTS: Record<string, StandardFonts[]> = {
+  Arial: HELVETICA,
+  'Times New Roman': TIMES,
+  Georgia: TIMES,
+  Verdana: HELVETICA,
+  'Courier New': COURIER,
+  'Trebuchet MS': HELVETICA,
+  Impact: [HELVETICA[1], HELVETICA[1], HELVETICA[3], HELVETICA[3]],
+};
+
+export function standardFontFor(family: string, weight = 400, italic = false) {
+  const variants = STANDARD_FONTS[family] ?? HELVETICA;
+  return variants[(weight >= 600 ? 1 : 0) + (italic ? 2 : 0)];
+}
+
+// One embedded font per face in use
+function faceKey(font: Pick<FontSpec, 'family' | 'weight' | 'italic'>) {
+  return `${font.family}|${font.weight ?? 400}|${font.italic ? 'italic' : 'normal'}`;
+}
+
+// Where the renderer gets the files behind URLs: PNG or JPEG bytes for backgrounds and images,
+// and the font files of the user's uploaded families
+export interface PdfResources {
+  loadImage: (url: string) => Promise<Uint8Array>;
+  fonts?: CustomFont[];
+  loadFont?: (url: string) => Promise<Uint8Array>;
+}
+
+// Uploaded families are embedded, subset to the characters used; the rest map to a standard font
+async function embedFont(doc: PDFDocument, font: Omit<FontSpec, 'size'>, { fonts = [], loadFont }: PdfResources) {
+  const face = pickFontFace(fonts, font.family, font.weight, font.italic);
+  if (face && loadFont) {
+    return doc.embedFont(await loadFont(face.file_url), { subset: true });
+  }
+  return doc.embedFont(standardFontFor(font.family, font.weight, font.italic));
+}
+
+function hexToRgb(hex: string) {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map((c) => c + c).join('') : value;
+  const n = parseInt(full, 16);
+  if (Number.isNaN(n)) return rgb(0, 0, 0);
+  return rgb(((n >> 16) & 255) / 255, ((n >> 8) & 255) / 255, (n & 255) / 255);
+}
+
+// Standard fonts only cover WinAnsi and uploaded ones their own glyphs; swap anything else for '?'
+// rather than failing the whole file
+const characterSets = new WeakMap<PDFFont, Set<number>>();
+
+function encodable(font: PDFFont, text: string) {
+  if (!characterSets.has(font)) {
+    characterSets.set(font, new Set(font.getCharacterSet()));
+  }
+  const supported = characterSets.get(font)!;
+  return Array.from(text)
+    .map((char) => (supported.has(char.codePointAt(0)!) ? char : '?'))
+    .join('');
+}
+
+// PNG files start with 0x89 'P'; JPEG with 0xFF 0xD8
+function imageType(bytes: Uint8Array) {
+  if (bytes[0] === 0x89 && bytes[1] === 0x50) return 'png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'jpeg';
+  return null;
+}
+
+export function isPdfEmbeddable(bytes: Uint8Array) {
+  return imageType(bytes) !== null;
+}
+
+async function embedImage(doc: PDFDocument, bytes: Uint8Array) {
+  const type = imageType(bytes);
+  if (type === 'png') return doc.embedPng(bytes);
+  if (type === 'jpeg') return doc.embedJpg(bytes);
+  throw new Error('Images must be PNG or JPEG for PDF output');
+}
+
+// Clip to the element's box (or the ellipse inside it) and draw the image fitted into it
+function drawImageElement(page: PDFPage, element: ImageElement, image: PDFImage) {
+  const top = page.getHeight();
+  const placement = imagePlacement(element, image.width, image.height);
+  const clipPath = element.circle
+    ? drawEllipsePath({
+        x: element.x + element.width / 2,
+        y: top - element.y - element.height / 2,
+        xScale: element.width / 2,
+        yScale: element.height / 2,
+      })
+    : [rectangle(element.x, top - element.y - element.height, element.width, element.height)];
+
+  page.pushOperators(pushGraphicsState(), ...clipPath, clip(), endPath());
+  page.drawImage(image, {
+    x: placement.x,
+    y: top - placement.y - placement.height,
+    width: placement.width,
+    height: placement.height,
+  });
+  page.pushOperators(popGraphicsState());
+}
+
+// Just enough of a canvas for drawQr, drawing vector rectangles in top-left-origin coordinates
+function rectangleCanvas(page: PDFPage): Pick<Canvas2D, 'fillStyle' | 'fillRect' | 'save' | 'restore'> {
+  let fill = '#000000';
+  return {
+    get fillStyle() {
+      return fill;
+    },
+    set fillStyle(value) {
+      fill = String(value);
+    },
+    fillRect(x, y, width, height) {
+      page.drawRectangle({ x, y: page.getHeight() - y - height, width, height, color: hexToRgb(fill) });
+    },
+    save() {},
+    restore() {},
+  };
+}
+
+// Render one certificate as a PDF with a page per template page, each sized to its background and
+// with fields as real text
+export async function renderCertificatePdf(
+  template: CertificateTemplate,
+  pages: TemplatePage[],
+  fields: TemplateField[],
+  row: CsvRow,
+  mapping: FieldMapping,
+  resources: PdfResources,
+  options: LayoutOptions = {}
+): Promise<Uint8Array> {
+  const { loadImage } = resources;
+  const doc = await PDFDocument.create();
+  doc.setTitle(template.name);
+  doc.registerFontkit(fontkit);
+
+  const fonts = new Map<string, PDFFont>();
+  for (const field of fields) {
+    const face = { family: field.font_family, weight: Number(field.font_weight) || 400, italic: !!field.font_italic };
+    if (!fonts.has(faceKey(face))) {
+      fonts.set(faceKey(face), await embedFont(doc, face, resources));
+    }
+  }
+  const measure: MeasureText = (text, font) => {
+    const pdfFont = fonts.get(faceKey(font))!;
+    return pdfFont.widthOfTextAtSize(encodable(pdfFont, text), font.size);
+  };
+
+  for (const layout of layoutPages(pages, fields, row, mapping, measure, options)) {
+    const page = doc.addPage([layout.width, layout.height]);
+
+    const background = await embedImage(doc, await loadImage(layout.backgroundUrl));
+    page.drawImage(background, { x: 0, y: 0, width: layout.width, height: layout.height });
+
+    for (const element of layout.elements) {
+      if (element.kind === 'image') {
+        if (element.src) {
+          drawImageElement(page, element, await embedImage(doc, await loadImage(element.src)));
+        }
+        continue;
+      }
+      if (!element.text) continue;
+      if (element.kind === 'qr') {
+        drawQr(rectangleCanvas(page), element);
+        continue;
+      }
+
+      const font = fonts.get(faceKey(element.font))!;
+      const size = element.font.size;
+      const ascent = font.heightAtSize(size, { descender: false });
+      const descent = font.heightAtSize(size) - ascent;
+      const lineHeightPx = size * element.lineHeight;
+      const baseline = baselineOffset(ascent, descent, lineHeightPx);
+      const color = hexToRgb(element.color);
+
+      element.lines.forEach((line, i) => {
+        const text = encodable(font, line.text);
+        // PDF space has its origin at the bottom-left
+        const x = element.x + lineOffsetX(element, line.width);
+        const y = layout.height - (element.y + i * lineHeightPx + baseline);
+
+        // Character spacing and the outline are graphics state that drawText inherits
+        page.pushOperators(pushGraphicsState());
+        if (element.letterSpacing) {
+          page.pushOperators(setCharacterSpacing(element.letterSpacing));
+        }
+        // PDF has no blur, so the shadow is a sharp copy of the text behind it
+        if (element.shadow) {
+          const { offsetX, offsetY } = element.shadow;
+          page.drawText(text, { x: x + offsetX, y: y - offsetY, size, font, color: hexToRgb(element.shadow.color) });
+        }
+        if (element.stroke) {
+          page.pushOperators(
+            setTextRenderingMode(TextRenderingMode.FillAndOutline),
+            setLineWidth(element.stroke.width),
+            setLineJoin(LineJoinStyle.Round),
+            setStrokingColor(hexToRgb(element.stroke.color))
+          );
+        }
+        page.drawText(text, { x, y, size, font, color });
+        page.pushOperators(popGraphicsState());
+
+        if (element.underline) {
+          const underlineY = y - underlineOffset(size);
+          page.drawLine({
+            start: { x, y: underlineY },
+            end: { x: x + Math.round(line.width), y: underlineY },
+            thickness: underlineThickness(size),
+            color,
+          });
+        }
+      });
+    }
+  }
+
+  return doc.save();
+}
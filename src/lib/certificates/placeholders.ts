@@ -0,0 +1,39 @@
+import { applyFormatters, parsePlaceholder } from './formatters.ts';
+import type { CsvRow, FieldMapping } from './types.ts';
+
+// Matches `{{key}}` or `{{key|formatter:arg}}`, allowing whitespace inside the braces
+export const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+export interface FillOptions {
+  // Stands in for a placeholder whose value is empty; formatters don't apply to it
+  fallback?: (key: string) => string;
+  // Applied to each formatted value, e.g. HTML escaping
+  escape?: (value: string) => string;
+}
+
+// Replace each placeholder with its resolved value, run through the placeholder's formatters
+export function fillPlaceholders(
+  template: string,
+  resolve: (key: string) => string,
+  { fallback, escape = (value) => value }: FillOptions = {}
+) {
+  return template.replace(PLACEHOLDER_PATTERN, (_, expression: string) => {
+    const { key, formatters } = parsePlaceholder(expression);
+    const value = resolve(key);
+    if (!value && fallback) return fallback(key);
+    return escape(value ? applyFormatters(value, formatters) : value);
+  });
+}
+
+// Resolve a placeholder key through the field mapping, falling back to a CSV column of the same name
+export function rowValue(key: string, row: CsvRow, mapping: FieldMapping) {
+  const column = mapping[key] ?? key;
+  return row[column] ?? '';
+}
+
+// Distinct keys used in a template, in order of first use; formatters aren't part of the key
+export function placeholderKeys(template: string) {
+  return [
+    ...new Set(Array.from(template.matchAll(PLACEHOLDER_PATTERN), (match) => parsePlaceholder(match[1]).key)),
+  ];
+}
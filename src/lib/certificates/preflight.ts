@@ -0,0 +1,110 @@
+import type { OutputFormat } from './formats.ts';
+import { layoutPages, lineOffsetX, type LayoutOptions } from './layout.ts';
+import type { CsvRow, FieldMapping, LayoutElement, MeasureText, TemplateField, TemplatePage } from './types.ts';
+
+// Flag auto-shrunk text once it's below this share of the field's font size
+export const SHRINK_WARNING_RATIO = 0.6;
+
+export type PreflightProblem = 'overflow' | 'shrunk' | 'missing_characters' | 'empty';
+
+export interface PreflightIssue {
+  // Index into the rows that were checked
+  row: number;
+  fieldId: string;
+  label: string;
+  problem: PreflightProblem;
+  detail: string;
+}
+
+// The WinAnsi characters outside Latin-1 that the standard PDF fonts also have
+const PDF_EXTRAS = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+
+// Whether the built-in output fonts can draw a character: PDFs use the standard PDF fonts (WinAnsi),
+// images the latin subset of the families in _shared/fonts.ts. Both cover printable ASCII and Latin-1.
+function drawable(char: string, format: OutputFormat) {
+  const code = char.codePointAt(0)!;
+  if (char === '\n' || (code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) return true;
+  if (format === 'pdf') return PDF_EXTRAS.includes(char);
+  return (
+    [0x131, 0x152, 0x153, 0x2c6, 0x2da, 0x2dc, 0x20ac, 0x2122, 0x2212].includes(code) ||
+    (code >= 0x2000 && code <= 0x206f)
+  );
+}
+
+function elementIssues(
+  element: LayoutElement,
+  field: TemplateField,
+  page: { width: number; height: number },
+  format: OutputFormat,
+  customFamilies: string[]
+): Pick<PreflightIssue, 'problem' | 'detail'>[] {
+  if (element.kind === 'image') {
+    return element.src.trim() ? [] : [{ problem: 'empty', detail: 'No image' }];
+  }
+  if (!element.text.trim()) {
+    return [{ problem: 'empty', detail: 'No value' }];
+  }
+  if (element.kind === 'qr') {
+    return element.modules.length > 0 ? [] : [{ problem: 'overflow', detail: 'Too long for a QR code' }];
+  }
+
+  const issues: Pick<PreflightIssue, 'problem' | 'detail'>[] = [];
+  const widest = Math.max(0, ...element.lines.map((l) => l.width));
+  const left = element.x + lineOffsetX(element, widest);
+  const maxWidth = Number(field.max_width);
+  const maxHeight = Number(field.max_height);
+  // Half a pixel of slack for measurement rounding
+  if ((maxWidth && widest > maxWidth + 0.5) || (maxHeight && element.height > maxHeight + 0.5)) {
+    issues.push({ problem: 'overflow', detail: 'Too long for its box' });
+  } else if (left < 0 || left + widest > page.width || element.y + element.height > page.height) {
+    issues.push({ problem: 'overflow', detail: 'Runs off the page' });
+  }
+
+  if (element.font.size < Number(field.font_size) * SHRINK_WARNING_RATIO) {
+    issues.push({
+      problem: 'shrunk',
+      detail: `Shrunk to ${Math.round(element.font.size)}px from ${field.font_size}px`,
+    });
+  }
+
+  // Uploaded fonts cover whatever their designers put in them, which isn't known here
+  const builtIn = !customFamilies.includes(element.font.family);
+  const missing = builtIn ? [...new Set(Array.from(element.text).filter((char) => !drawable(char, format)))] : [];
+  if (missing.length > 0) {
+    issues.push({
+      problem: 'missing_characters',
+      detail: `The font can't draw ${missing.slice(0, 5).map((char) => `“${char}”`).join(', ')}`,
+    });
+  }
+  return issues;
+}
+
+// Lay out every row the way the renderer will and report the fields that will look broken.
+// Image output only holds the first page, so only that page is checked for it.
+// `customFamilies` are the user's uploaded fonts, whose character coverage isn't checked.
+export function preflightRows(
+  pages: TemplatePage[],
+  fields: TemplateField[],
+  rows: CsvRow[],
+  mapping: FieldMapping,
+  measure: MeasureText,
+  format: OutputFormat,
+  options: LayoutOptions = {},
+  customFamilies: string[] = []
+): PreflightIssue[] {
+  const fieldsById = new Map(fields.map((field) => [field.id, field]));
+  const checkedPages = format === 'pdf' ? pages : pages.slice(0, 1);
+  const issues: PreflightIssue[] = [];
+
+  rows.forEach((row, index) => {
+    for (const layout of layoutPages(checkedPages, fields, row, mapping, measure, options)) {
+      for (const element of layout.elements) {
+        const field = fieldsById.get(element.id)!;
+        for (const issue of elementIssues(element, field, layout, format, customFamilies)) {
+          issues.push({ row: index, fieldId: field.id, label: field.label, ...issue });
+        }
+      }
+    }
+  });
+  return issues;
+}
@@ -0,0 +1,61 @@
+import qrcode from 'qrcode-generator';
+
+// The library's default encoder drops everything outside Latin-1
+qrcode.stringToBytes = qrcode.stringToBytesFuncs['UTF-8'];
+
+// Light modules around the symbol so scanners can find its edges
+export const QR_QUIET_ZONE = 2;
+
+// Dark/light modules of the smallest QR symbol that holds the text, row by row.
+// Medium error correction survives the odd smudge without growing the symbol much.
+// Text too long for any symbol (over ~2,300 bytes) gives no modules, like empty text; preflight flags it.
+export function qrModules(text: string): boolean[][] {
+  if (!text) return [];
+
+  const qr = qrcode(0, 'M');
+  qr.addData(text, 'Byte');
+  try {
+    qr.make();
+  } catch {
+    return [];
+  }
+
+  const count = qr.getModuleCount();
+  return Array.from({ length: count }, (_, row) =>
+    Array.from({ length: count }, (_, col) => qr.isDark(row, col))
+  );
+}
+
+export type QrContentMode = 'verification' | 'column' | 'custom';
+
+// How the editor presents a QR field's content string
+export function qrContentMode(content: string): QrContentMode {
+  if (content.trim() === '{{verification_url}}') return 'verification';
+  if (/^\{\{[^{}]*\}\}$/.test(content.trim())) return 'column';
+  return 'custom';
+}
+
+// The content to start from when the editor switches a QR field to `mode`. Custom text starts empty,
+// since the other modes' content would read as their own mode again.
+export function qrContentForMode(mode: QrContentMode, content: string) {
+  if (mode === qrContentMode(content)) return content;
+  if (mode === 'verification') return '{{verification_url}}';
+  if (mode === 'column') return '{{url}}';
+  return '';
+}
+
+// Runs of dark modules per row, so renderers draw one rectangle per run rather than per module
+export function qrDarkRuns(modules: boolean[][]) {
+  const runs: { row: number; col: number; length: number }[] = [];
+  modules.forEach((cells, row) => {
+    let start = -1;
+    cells.forEach((dark, col) => {
+      if (dark && start < 0) start = col;
+      if ((!dark || col === cells.length - 1) && start >= 0) {
+        runs.push({ row, col: start, length: (dark ? col + 1 : col) - start });
+        start = -1;
+      }
+    });
+  });
+  return runs;
+}
@@ -0,0 +1,69 @@
+import { intersects, type Box } from './snapping.ts';
+
+// Pasted and duplicated fields land this far down and to the right of the originals
+export const PASTE_OFFSET = 20;
+
+interface CopyableField {
+  id: string;
+  label: string;
+  x: number;
+  y: number;
+  page_index?: number;
+}
+
+interface SizedField {
+  id: string;
+  font_size: number;
+}
+
+// A click selects just that field; an additive (Shift) click adds it to the selection, or takes it out again
+export function toggleSelection(ids: string[], fieldId: string, additive: boolean) {
+  if (!additive) return [fieldId];
+  return ids.includes(fieldId) ? ids.filter((id) => id !== fieldId) : [...ids, fieldId];
+}
+
+// The box between two corners, in either order, e.g. a marquee from where it started to the pointer
+export function boxBetween(from: { x: number; y: number }, to: { x: number; y: number }): Box {
+  return {
+    x: Math.min(from.x, to.x),
+    y: Math.min(from.y, to.y),
+    width: Math.abs(to.x - from.x),
+    height: Math.abs(to.y - from.y),
+  };
+}
+
+// The selection after a marquee over `area`: the fields whose boxes it touches, added to the
+// current selection when additive
+export function marqueeSelection(ids: string[], boxes: Map<string, Box>, area: Box, additive: boolean) {
+  const covered = [...boxes].filter(([, box]) => intersects(box, area)).map(([id]) => id);
+  return additive ? [...new Set([...ids, ...covered])] : covered;
+}
+
+// Copies of fields for pasting onto `page`, offset from the originals. `stamp` keeps the new
+// temporary ids apart from earlier copies.
+export function copyFields<F extends CopyableField>(fields: F[], page: number, stamp: number): F[] {
+  return fields.map((f, i) => ({
+    ...f,
+    id: `temp-${stamp}-${i}`,
+    label: `${f.label} copy`,
+    x: f.x + PASTE_OFFSET,
+    y: f.y + PASTE_OFFSET,
+    page_index: page,
+  }));
+}
+
+// The value every selected field shares, or undefined when they differ
+export function sharedValue<T>(values: T[]) {
+  return values.every((value) => value === values[0]) ? values[0] : undefined;
+}
+
+// Set the first of `ids` to `size` and move the other sizes by as much, within min and max, so a
+// mixed selection keeps its differences
+export function shiftFontSizes<F extends SizedField>(fields: F[], ids: string[], size: number, min: number, max: number) {
+  const reference = fields.find((f) => f.id === ids[0]);
+  if (!reference) return fields;
+  const delta = size - reference.font_size;
+  return fields.map((f) =>
+    ids.includes(f.id) ? { ...f, font_size: Math.min(max, Math.max(min, f.font_size + delta)) } : f
+  );
+}
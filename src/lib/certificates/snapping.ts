@@ -0,0 +1,135 @@
+import type { LayoutElement } from './types.ts';
+
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A line the dragged box lined up with: `position` is an x for vertical lines, a y for horizontal ones
+export interface SnapGuide {
+  orientation: 'vertical' | 'horizontal';
+  position: number;
+}
+
+export interface SnapOptions {
+  page: { width: number; height: number };
+  // The other fields' boxes on the page
+  others: Box[];
+  // How close an edge or centre must come to a line to snap to it, in page pixels
+  threshold: number;
+  // Grid spacing; the box's top-left corner snaps to the grid when nothing else is in reach
+  grid?: number;
+}
+
+export interface Offset {
+  dx: number;
+  dy: number;
+}
+
+export type Alignment = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+// The area an element covers on the page
+export function elementBox(element: LayoutElement): Box {
+  if (element.kind === 'qr') return { x: element.x, y: element.y, width: element.size, height: element.size };
+  return { x: element.x, y: element.y, width: element.width, height: element.height };
+}
+
+// The smallest box holding all of `boxes`
+export function boundingBox(boxes: Box[]): Box {
+  const left = Math.min(...boxes.map((b) => b.x));
+  const top = Math.min(...boxes.map((b) => b.y));
+  const right = Math.max(...boxes.map((b) => b.x + b.width));
+  const bottom = Math.max(...boxes.map((b) => b.y + b.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+// Whether two boxes overlap at all, e.g. a field and a selection marquee
+export function intersects(a: Box, b: Box) {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+// Start, centre and end of a span
+function stops(start: number, size: number) {
+  return [start, start + size / 2, start + size];
+}
+
+// The shift that brings one of `points` onto the nearest of `targets`, if any is within `threshold`
+function nearestSnap(points: number[], targets: number[], threshold: number) {
+  let best: { shift: number; target: number } | undefined;
+  for (const point of points) {
+    for (const target of targets) {
+      const shift = target - point;
+      if (Math.abs(shift) <= threshold && (!best || Math.abs(shift) < Math.abs(best.shift))) {
+        best = { shift, target };
+      }
+    }
+  }
+  return best;
+}
+
+function snapAxis(start: number, size: number, targets: number[], threshold: number, grid?: number) {
+  const snap = nearestSnap(stops(start, size), targets, threshold);
+  if (snap) return { start: start + snap.shift, guide: snap.target };
+  if (grid) return { start: Math.round(start / grid) * grid };
+  return { start };
+}
+
+// Move a dragged box so its edges or centre line up with the page's or another box's, when they come
+// within `threshold`. Returns where the box's top-left corner should go and the lines it lined up with.
+export function snapBox(box: Box, { page, others, threshold, grid }: SnapOptions) {
+  const xs = [...stops(0, page.width), ...others.flatMap((b) => stops(b.x, b.width))];
+  const ys = [...stops(0, page.height), ...others.flatMap((b) => stops(b.y, b.height))];
+  const x = snapAxis(box.x, box.width, xs, threshold, grid);
+  const y = snapAxis(box.y, box.height, ys, threshold, grid);
+
+  const guides: SnapGuide[] = [];
+  if (x.guide !== undefined) guides.push({ orientation: 'vertical', position: x.guide });
+  if (y.guide !== undefined) guides.push({ orientation: 'horizontal', position: y.guide });
+  return { x: x.start, y: y.start, guides };
+}
+
+// How far to move each box to line them up along one edge or centre line of `bounds`
+// (by default, the box around all of them)
+export function alignOffsets(boxes: Box[], alignment: Alignment, bounds: Box = boundingBox(boxes)): Offset[] {
+  return boxes.map((box) => {
+    switch (alignment) {
+      case 'left':
+        return { dx: bounds.x - box.x, dy: 0 };
+      case 'center':
+        return { dx: bounds.x + (bounds.width - box.width) / 2 - box.x, dy: 0 };
+      case 'right':
+        return { dx: bounds.x + bounds.width - box.width - box.x, dy: 0 };
+      case 'top':
+        return { dx: 0, dy: bounds.y - box.y };
+      case 'middle':
+        return { dx: 0, dy: bounds.y + (bounds.height - box.height) / 2 - box.y };
+      case 'bottom':
+        return { dx: 0, dy: bounds.y + bounds.height - box.height - box.y };
+    }
+  });
+}
+
+// How far to move each box so the gaps between neighbours are equal. The outermost boxes stay put;
+// offsets come back in the order the boxes were given.
+export function distributeOffsets(boxes: Box[], direction: 'horizontal' | 'vertical'): Offset[] {
+  const start = (b: Box) => (direction === 'horizontal' ? b.x : b.y);
+  const size = (b: Box) => (direction === 'horizontal' ? b.width : b.height);
+  const offsets: Offset[] = boxes.map(() => ({ dx: 0, dy: 0 }));
+  if (boxes.length < 3) return offsets;
+
+  const order = boxes.map((_, i) => i).sort((a, b) => start(boxes[a]) - start(boxes[b]));
+  const first = boxes[order[0]];
+  const last = boxes[order[order.length - 1]];
+  const occupied = boxes.reduce((sum, b) => sum + size(b), 0);
+  const gap = (start(last) + size(last) - start(first) - occupied) / (boxes.length - 1);
+
+  let next = start(first);
+  for (const i of order) {
+    const shift = next - start(boxes[i]);
+    offsets[i] = direction === 'horizontal' ? { dx: shift, dy: 0 } : { dx: 0, dy: shift };
+    next += size(boxes[i]) + gap;
+  }
+  return offsets;
+}
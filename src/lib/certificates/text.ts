@@ -0,0 +1,18 @@
+// Casing applied to a text field's value before it is laid out
+export type TextTransform = 'none' | 'uppercase' | 'lowercase' | 'title';
+
+export function toTextTransform(value?: string | null): TextTransform {
+  return value === 'uppercase' || value === 'lowercase' || value === 'title' ? value : 'none';
+}
+
+// "jANE o'neil-SMITH" → "Jane O'neil-Smith": each word, and each part of a hyphenated one, starts upper case
+export function titleCase(value: string) {
+  return value.toLowerCase().replace(/(^|[\s-])(\p{L})/gu, (_, before: string, letter: string) => before + letter.toUpperCase());
+}
+
+export function transformText(value: string, transform: TextTransform) {
+  if (transform === 'uppercase') return value.toUpperCase();
+  if (transform === 'lowercase') return value.toLowerCase();
+  if (transform === 'title') return titleCase(value);
+  return value;
+}
@@ -0,0 +1,177 @@
+// Shared shapes for certificate layout and rendering.
+// Everything in this folder except measure.ts is also imported by the Supabase edge functions
+// (Deno), so these modules avoid browser APIs and `@/` aliases and use explicit `.ts` imports.
+
+export interface CertificateTemplate {
+  id: string;
+  name: string;
+  // The first page's background, kept for templates without pages of their own
+  image_url: string;
+  image_width: number;
+  image_height: number;
+}
+
+// One page of a template, e.g. the front and back of a double-sided certificate
+export interface TemplatePage {
+  page_index: number;
+  image_url: string;
+  image_width: number;
+  image_height: number;
+}
+
+export interface TemplateField {
+  id: string;
+  field_key: string;
+  label: string;
+  x: number;
+  y: number;
+  font_size: number;
+  font_family: string;
+  font_color: string;
+  text_align: string;
+  // The text box; without a max_width the box is as wide as the text
+  max_width?: number | null;
+  max_height?: number | null;
+  // How long values are kept inside the box: `none`, `shrink`, `wrap` or `truncate`
+  text_fit?: string | null;
+  // Limits for `shrink` and `wrap`
+  min_font_size?: number | null;
+  max_lines?: number | null;
+  // `text` (a CSV value), `verification_code`, `verification_url`, `qr` or `image`; absent means text
+  field_type?: string;
+  // Box size of fields that aren't sized by their text, e.g. QR codes and images
+  width?: number | null;
+  height?: number | null;
+  // What a QR code encodes, or where an image comes from: a string with `{{key}}` placeholders
+  content?: string | null;
+  // How an image fills its box (`contain` or `cover`), and an optional `circle` mask
+  image_fit?: string | null;
+  image_mask?: string | null;
+  // Which page of the template the field sits on, counting from 0
+  page_index?: number;
+  // Text styling; absent values mean regular upright text with no decoration
+  font_weight?: number | null;
+  font_italic?: boolean | null;
+  underline?: boolean | null;
+  letter_spacing?: number | null;
+  // Multiple of the font size
+  line_height?: number | null;
+  // `none`, `uppercase`, `lowercase` or `title`
+  text_transform?: string | null;
+  // Outline around the glyphs, drawn when there's a color and a width
+  stroke_color?: string | null;
+  stroke_width?: number | null;
+  // Drop shadow, drawn when there's a color
+  shadow_color?: string | null;
+  shadow_blur?: number | null;
+  shadow_offset_x?: number | null;
+  shadow_offset_y?: number | null;
+  // Used when the field's CSV value is empty; in text templates, QR codes and images, for each empty placeholder
+  default_value?: string | null;
+  // Show the field only on some rows: `always`, `not_empty`, `empty`, `equals` or `not_equals`,
+  // tested against the value of the placeholder key `show_when_key`
+  show_when?: string | null;
+  show_when_key?: string | null;
+  show_when_value?: string | null;
+}
+
+export type CsvRow = Record<string, string>;
+
+// Maps a template field key to the CSV column that feeds it
+export type FieldMapping = Record<string, string>;
+
+// The certificate's public verification code and the URL of its /verify page
+export interface VerificationInfo {
+  code: string;
+  url: string;
+}
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+export interface FontSpec {
+  family: string;
+  size: number;
+  // CSS weight, 400 when absent
+  weight?: number;
+  italic?: boolean;
+}
+
+export type MeasureText = (text: string, font: FontSpec) => number;
+
+export interface TextLine {
+  text: string;
+  width: number;
+}
+
+// A field resolved for one row, positioned in template pixels
+export interface TextElement {
+  kind: 'text';
+  id: string;
+  text: string;
+  lines: TextLine[];
+  // Top-left corner of the text box
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Distance from the field's anchor point back to the box's left edge
+  offsetX: number;
+  font: FontSpec;
+  lineHeight: number;
+  color: string;
+  align: TextAlign;
+  // Extra space after every character, as Konva adds it
+  letterSpacing: number;
+  underline: boolean;
+  stroke?: TextStroke;
+  shadow?: TextShadow;
+}
+
+export interface TextStroke {
+  color: string;
+  width: number;
+}
+
+export interface TextShadow {
+  color: string;
+  blur: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+export interface QrElement {
+  kind: 'qr';
+  id: string;
+  text: string;
+  // Top-left corner of the square, quiet zone included
+  x: number;
+  y: number;
+  size: number;
+  color: string;
+  modules: boolean[][];
+}
+
+export type ImageFit = 'contain' | 'cover';
+
+export interface ImageElement {
+  kind: 'image';
+  id: string;
+  // Resolved URL; empty when the row has no image
+  src: string;
+  // The box the image is fitted into and clipped to
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fit: ImageFit;
+  circle: boolean;
+}
+
+export type LayoutElement = TextElement | QrElement | ImageElement;
+
+export interface CertificateLayout {
+  width: number;
+  height: number;
+  backgroundUrl: string;
+  elements: LayoutElement[];
+}
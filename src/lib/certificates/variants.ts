@@ -0,0 +1,30 @@
+import { rowValue } from './placeholders.ts';
+import type { CsvRow, FieldMapping } from './types.ts';
+
+// Which template each value of a CSV column gets, e.g. `Speaker` → the speaker template's id
+export type TemplateVariants = Record<string, string>;
+
+// Values are compared trimmed and ignoring case, like visibility conditions
+function normalize(value: string) {
+  return value.trim().toLowerCase();
+}
+
+// The template a row is issued with: the variant its `column` value selects, else the batch's own template.
+// `column` is a key resolved through the field mapping like any placeholder.
+export function variantTemplateId(
+  row: CsvRow,
+  mapping: FieldMapping,
+  column: string | null | undefined,
+  variants: TemplateVariants,
+  defaultTemplateId: string
+) {
+  if (!column?.trim()) return defaultTemplateId;
+  const value = normalize(rowValue(column.trim(), row, mapping));
+  const match = Object.keys(variants).find((key) => normalize(key) === value);
+  return match ? variants[match] : defaultTemplateId;
+}
+
+// Every template a batch can use, the default first
+export function variantTemplateIds(variants: TemplateVariants, defaultTemplateId: string) {
+  return [...new Set([defaultTemplateId, ...Object.values(variants)])];
+}
@@ -0,0 +1,30 @@
+import type { TemplateField, VerificationInfo } from './types.ts';
+
+// Stands in for a certificate's code wherever there is no real one yet (editor, previews)
+export const SAMPLE_VERIFICATION_CODE = 'XXXX2345YZ';
+
+// Fields whose value is the certificate's verification code or public URL rather than a CSV column
+export const VERIFICATION_FIELD_TYPES = ['verification_code', 'verification_url'] as const;
+
+// The same names work as `{{verification_code}}` / `{{verification_url}}` placeholders, e.g. in QR contents
+export function isVerificationKey(key: string | undefined) {
+  return (VERIFICATION_FIELD_TYPES as readonly string[]).includes(key ?? '');
+}
+
+export function isVerificationField(field: Pick<TemplateField, 'field_type'>) {
+  return isVerificationKey(field.field_type);
+}
+
+export function verificationValue(key: string, verification: VerificationInfo | undefined) {
+  if (!verification) return '';
+  return key === 'verification_url' ? verification.url : verification.code;
+}
+
+export function verificationUrl(siteUrl: string, code: string) {
+  return `${siteUrl.replace(/\/+$/, '')}/verify/${encodeURIComponent(code)}`;
+}
+
+// What verification fields show before a certificate exists
+export function sampleVerification(siteUrl: string): VerificationInfo {
+  return { code: SAMPLE_VERIFICATION_CODE, url: verificationUrl(siteUrl, SAMPLE_VERIFICATION_CODE) };
+}
@@ -0,0 +1,466 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { useMutation, useQuery, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import CertificateRevisionDialog, {
+  type CertificateRevision,
+  type RevisableCertificate,
+} from '@/components/history/CertificateRevisionDialog';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowLeft, Ban, ChevronLeft, ChevronRight, Download, ExternalLink, FilePen, RotateCcw, Search } from 'lucide-react';
+import { format } from 'date-fns';
+import type { FieldMapping } from '@/lib/certificates/types';
+
+const PAGE_SIZE = 50;
+
+const emailStatusConfig = {
+  pending: { label: 'Pending', color: 'bg-muted text-muted-foreground' },
+  sending: { label: 'Sending', color: 'bg-warning/10 text-warning' },
+  sent: { label: 'Sent', color: 'bg-success/10 text-success' },
+  failed: { label: 'Failed', color: 'bg-destructive/10 text-destructive' },
+  skipped: { label: 'Not emailed', color: 'bg-muted text-muted-foreground' },
+};
+
+const renderFailedStatus = { label: 'Render failed', color: 'bg-destructive/10 text-destructive' };
+const revokedStatus = { label: 'Revoked', color: 'bg-destructive/10 text-destructive' };
+
+// `render_failed` and `revoked` aren't email statuses; they select rows by render status and revocation
+const STATUS_FILTERS = [
+  { value: 'all', label: 'All statuses' },
+  ...Object.entries(emailStatusConfig).map(([value, { label }]) => ({ value, label })),
+  { value: 'render_failed', label: 'Render failed' },
+  { value: 'revoked', label: 'Revoked' },
+];
+
+// Characters with a meaning in PostgREST's `or` filter syntax
+const FILTER_SYNTAX = /[,()*%\\]/g;
+
+export default function BatchDetail() {
+  const { id } = useParams();
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(0);
+  const [revision, setRevision] = useState<{ mode: 'revoke' | 'reissue'; certificate: RevisableCertificate } | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  // Debounce the search box so typing doesn't fire a query per keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchInput.replace(FILTER_SYNTAX, ' ').trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  useEffect(() => {
+    setPage(0);
+  }, [statusFilter, search]);
+
+  const isInFlight = (status?: string) => status === 'pending' || status === 'processing';
+
+  const { data: batch, isLoading } = useQuery({
+    queryKey: ['batch-job', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('batch_jobs')
+        .select('*, certificate_templates(name)')
+        .eq('id', id!)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !!id,
+    refetchInterval: (query) => (isInFlight(query.state.data?.status) ? 3000 : false),
+  });
+
+  const { data: certificates } = useQuery({
+    queryKey: ['batch-certificates', id, statusFilter, search, page],
+    queryFn: async () => {
+      let query = supabase
+        .from('certificates')
+        .select(
+          'id, row_index, recipient_name, recipient_email, recipient_data, email_status, email_error, email_attempts, render_status, render_error, render_attempts, certificate_url, verification_code, version, revoked_at, revocation_reason',
+          { count: 'exact' }
+        )
+        .eq('batch_id', id!);
+
+      if (statusFilter === 'render_failed') {
+        query = query.eq('render_status', 'failed');
+      } else if (statusFilter === 'revoked') {
+        query = query.not('revoked_at', 'is', null);
+      } else if (statusFilter !== 'all') {
+        query = query.eq('email_status', statusFilter);
+      }
+      if (search) {
+        query = query.or(`recipient_name.ilike.*${search}*,recipient_email.ilike.*${search}*`);
+      }
+
+      const { data, count, error } = await query
+        .order('row_index')
+        .order('version')
+        .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+      if (error) throw error;
+
+      // Which of these have been reissued already; a certificate is only ever replaced once
+      const { data: replacements, error: replacementsError } = await supabase
+        .from('certificates')
+        .select('replaces_id')
+        .in('replaces_id', data.map((c) => c.id));
+      if (replacementsError) throw replacementsError;
+
+      return { rows: data, count: count ?? 0, reissued: new Set(replacements.map((r) => r.replaces_id)) };
+    },
+    enabled: !!batch,
+    placeholderData: keepPreviousData,
+    refetchInterval: isInFlight(batch?.status) ? 3000 : false,
+  });
+
+  // Failed renders go back through process-batch (which emails them afterwards); failed emails only need send-emails
+  const retryMutation = useMutation({
+    mutationFn: async (certificateIds?: string[]) => {
+      const { data, error } = await supabase.rpc('retry_batch', {
+        _batch_id: id!,
+        _certificate_ids: certificateIds,
+      });
+      if (error) throw error;
+
+      const { renders, emails } = data as { renders: number; emails: number };
+      if (renders > 0 || emails > 0) {
+        const { error: invokeError } = await supabase.functions.invoke(renders > 0 ? 'process-batch' : 'send-emails', {
+          body: { batch_id: id },
+        });
+        if (invokeError) throw invokeError;
+      }
+      return renders + emails;
+    },
+    onSuccess: (queued) => {
+      queryClient.invalidateQueries({ queryKey: ['batch-job', id] });
+      queryClient.invalidateQueries({ queryKey: ['batch-certificates', id] });
+      toast({
+        title: queued > 0 ? 'Retry started' : 'Nothing to retry',
+        description: queued > 0 ? `Retrying ${queued} failed steps` : 'There are no failed certificates or emails',
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  // Both leave the batch pending: process-batch renders any replacement and rebuilds the archive without the revoked one
+  const revisionMutation = useMutation({
+    mutationFn: async ({ certificateId, reason, replacement }: CertificateRevision) => {
+      const { error } = replacement
+        ? await supabase.rpc('reissue_certificate', {
+            _certificate_id: certificateId,
+            _reason: reason,
+            _recipient_name: replacement.recipientName,
+            _recipient_email: replacement.recipientEmail,
+            _recipient_data: replacement.recipientData,
+          })
+        : await supabase.rpc('revoke_certificate', { _certificate_id: certificateId, _reason: reason });
+      if (error) throw error;
+
+      const { error: invokeError } = await supabase.functions.invoke('process-batch', { body: { batch_id: id } });
+      if (invokeError) throw invokeError;
+      return !!replacement;
+    },
+    onSuccess: (reissued) => {
+      setRevision(null);
+      queryClient.invalidateQueries({ queryKey: ['batch-job', id] });
+      queryClient.invalidateQueries({ queryKey: ['batch-certificates', id] });
+      toast({
+        title: reissued ? 'Certificate reissued' : 'Certificate revoked',
+        description: reissued
+          ? 'The corrected certificate is being generated'
+          : 'It now shows as revoked wherever it is checked',
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (authLoading || isLoading) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-pulse text-muted-foreground">Loading batch...</div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (!batch) {
+    return (
+      <DashboardLayout>
+        <Card className="border-dashed">
+          <CardContent className="flex flex-col items-center justify-center py-16">
+            <h3 className="text-lg font-semibold mb-2">Batch not found</h3>
+            <Button onClick={() => navigate('/history')}>Back to History</Button>
+          </CardContent>
+        </Card>
+      </DashboardLayout>
+    );
+  }
+
+  const total = certificates?.count ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <Button variant="ghost" size="sm" className="mb-2 -ml-2" onClick={() => navigate('/history')}>
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              History
+            </Button>
+            <h1 className="text-3xl font-bold tracking-tight">{batch.name}</h1>
+            <p className="text-muted-foreground mt-1">
+              {batch.certificate_templates?.name || 'Unknown template'}
+              {' · '}
+              {format(new Date(batch.created_at), 'MMM d, yyyy h:mm a')}
+              {' · '}
+              <span className="capitalize">{batch.status}</span>
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {batch.failed_count > 0 && !isInFlight(batch.status) && (
+              <Button variant="outline" onClick={() => retryMutation.mutate(undefined)} disabled={retryMutation.isPending}>
+                <RotateCcw className="w-4 h-4 mr-1" />
+                Retry failed
+              </Button>
+            )}
+            {batch.zip_url && (
+              <Button variant="outline" asChild>
+                <a href={batch.zip_url} download>
+                  <Download className="w-4 h-4 mr-1" />
+                  Download All
+                </a>
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-4 gap-4">
+          {[
+            { label: 'Total', value: batch.total_count, color: '' },
+            { label: 'Generated', value: batch.generated_count, color: 'text-primary' },
+            { label: 'Sent', value: batch.sent_count, color: 'text-success' },
+            { label: 'Failed', value: batch.failed_count, color: 'text-destructive' },
+          ].map((stat) => (
+            <Card key={stat.label}>
+              <CardContent className="pt-6">
+                <div className={`text-2xl font-bold ${stat.color}`}>{stat.value}</div>
+                <div className="text-xs text-muted-foreground">{stat.label}</div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Certificates</CardTitle>
+            <CardDescription>{total} matching certificates</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex gap-4">
+              <div className="relative flex-1">
+                <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  className="pl-9"
+                  placeholder="Search by name or email"
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                />
+              </div>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STATUS_FILTERS.map((filter) => (
+                    <SelectItem key={filter.value} value={filter.value}>{filter.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="border rounded-lg overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Error</TableHead>
+                    <TableHead className="w-40">Certificate</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {certificates?.rows.map((certificate) => {
+                    const revoked = !!certificate.revoked_at;
+                    const renderFailed = certificate.render_status === 'failed';
+                    const status = revoked
+                      ? revokedStatus
+                      : renderFailed
+                        ? renderFailedStatus
+                        : emailStatusConfig[certificate.email_status as keyof typeof emailStatusConfig]
+                          || emailStatusConfig.pending;
+                    const canRetry = !isInFlight(batch.status) && !revoked && (renderFailed || certificate.email_status === 'failed');
+                    const canRevise = !isInFlight(batch.status)
+                      && certificate.render_status === 'rendered'
+                      && !certificates.reissued.has(certificate.id);
+                    const revisable = certificate as unknown as RevisableCertificate;
+
+                    return (
+                      <TableRow key={certificate.id}>
+                        <TableCell className="text-muted-foreground">{certificate.row_index + 1}</TableCell>
+                        <TableCell>
+                          <div className={`font-medium ${revoked ? 'line-through text-muted-foreground' : ''}`}>
+                            {certificate.recipient_name}
+                            {certificate.version > 1 && (
+                              <Badge variant="outline" className="ml-2 no-underline">v{certificate.version}</Badge>
+                            )}
+                          </div>
+                          <a
+                            href={`/verify/${certificate.verification_code}`}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="text-xs font-mono text-muted-foreground hover:underline"
+                          >
+                            {certificate.verification_code}
+                          </a>
+                        </TableCell>
+                        <TableCell>{certificate.recipient_email || '—'}</TableCell>
+                        <TableCell>
+                          <Badge className={status.color}>{status.label}</Badge>
+                        </TableCell>
+                        <TableCell className="text-sm max-w-xs">
+                          {revoked && (
+                            <div className="text-xs text-muted-foreground">
+                              <div className="truncate">{certificate.revocation_reason}</div>
+                              {format(new Date(certificate.revoked_at!), 'MMM d, yyyy h:mm a')}
+                            </div>
+                          )}
+                          <div className="text-destructive truncate">
+                            {renderFailed ? certificate.render_error : certificate.email_error}
+                          </div>
+                          {(renderFailed || certificate.email_status === 'failed') && (
+                            <div className="text-xs text-muted-foreground">
+                              {renderFailed
+                                ? `${certificate.render_attempts} render attempts`
+                                : `${certificate.email_attempts} email attempts`}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {canRetry && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => retryMutation.mutate([certificate.id])}
+                              disabled={retryMutation.isPending}
+                            >
+                              <RotateCcw className="w-4 h-4 mr-1" />
+                              Retry
+                            </Button>
+                          )}
+                          {canRevise && !revoked && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setRevision({ mode: 'revoke', certificate: revisable })}
+                            >
+                              <Ban className="w-4 h-4 mr-1" />
+                              Revoke
+                            </Button>
+                          )}
+                          {canRevise && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setRevision({ mode: 'reissue', certificate: revisable })}
+                            >
+                              <FilePen className="w-4 h-4 mr-1" />
+                              Reissue
+                            </Button>
+                          )}
+                          {certificate.certificate_url && (
+                            <Button variant="ghost" size="sm" asChild>
+                              <a href={certificate.certificate_url} target="_blank" rel="noreferrer">
+                                <ExternalLink className="w-4 h-4 mr-1" />
+                                Open
+                              </a>
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                  {certificates && certificates.rows.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                        No certificates match these filters
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex items-center justify-end gap-2">
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setPage((p) => p - 1)}
+                disabled={page === 0}
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                Page {page + 1} of {pageCount}
+              </span>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setPage((p) => p + 1)}
+                disabled={page >= pageCount - 1}
+              >
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {revision && (
+        <CertificateRevisionDialog
+          mode={revision.mode}
+          certificate={revision.certificate}
+          fieldMapping={batch.field_mapping as FieldMapping}
+          pending={revisionMutation.isPending}
+          onOpenChange={(open) => !open && setRevision(null)}
+          onSubmit={(values) => revisionMutation.mutate(values)}
+        />
+      )}
+    </DashboardLayout>
+  );
+}
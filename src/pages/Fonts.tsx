@@ -0,0 +1,239 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { useCustomFonts } from '@/hooks/useCustomFonts';
+import { supabase } from '@/integrations/supabase/client';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { FONT_FILE_EXTENSIONS, FONT_WEIGHTS, fontFaceName, isFontFile } from '@/lib/certificates/fonts';
+import { STORAGE_BUCKET, fontPath } from '@/lib/certificates/paths';
+import { Trash2, Type, Upload } from 'lucide-react';
+
+// "BrandSans-BoldItalic.woff2" → "BrandSans"
+function familyFromFileName(fileName: string) {
+  return fileName.replace(/\.[^.]+$/, '').split(/[-_]/)[0];
+}
+
+export default function Fonts() {
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { fonts, families } = useCustomFonts();
+
+  const [file, setFile] = useState<File | null>(null);
+  const [family, setFamily] = useState('');
+  const [weight, setWeight] = useState(400);
+  const [italic, setItalic] = useState(false);
+
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate('/auth');
+    }
+  }, [user, loading, navigate]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] ?? null;
+    if (selected && !isFontFile(selected.name)) {
+      toast({ title: 'Error', description: 'Please choose a TTF, OTF or WOFF2 file', variant: 'destructive' });
+      return;
+    }
+    setFile(selected);
+    if (selected && !family) setFamily(familyFromFileName(selected.name));
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async () => {
+      if (!user || !file) throw new Error('Choose a font file');
+      const name = family.trim();
+      const style = italic ? 'italic' : 'normal';
+      if (fonts.some((f) => f.family === name && f.weight === weight && f.style === style)) {
+        throw new Error(`${name} already has a ${fontFaceName({ weight, style })} face; delete it first`);
+      }
+
+      const path = fontPath(user.id, `${Date.now()}.${file.name.split('.').pop()?.toLowerCase()}`);
+      const { error: uploadError } = await supabase.storage.from(STORAGE_BUCKET).upload(path, file);
+      if (uploadError) throw uploadError;
+
+      const { data: { publicUrl } } = supabase.storage.from(STORAGE_BUCKET).getPublicUrl(path);
+      const { error } = await supabase.from('custom_fonts').insert({
+        user_id: user.id,
+        family: name,
+        weight,
+        style,
+        file_path: path,
+        file_url: publicUrl,
+      });
+      if (error) {
+        await supabase.storage.from(STORAGE_BUCKET).remove([path]);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['custom-fonts'] });
+      toast({ title: 'Uploaded', description: `${family.trim()} is ready to use in templates` });
+      setFile(null);
+      setItalic(false);
+      setWeight(400);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Upload failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (font: { id: string; file_path: string }) => {
+      const { error } = await supabase.from('custom_fonts').delete().eq('id', font.id);
+      if (error) throw error;
+      await supabase.storage.from(STORAGE_BUCKET).remove([font.file_path]);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['custom-fonts'] });
+      toast({ title: 'Deleted', description: 'Font has been removed' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-pulse text-muted-foreground">Loading fonts...</div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (!user) return null;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Fonts</h1>
+          <p className="text-muted-foreground mt-1">
+            Upload your brand fonts to use them in templates; they are embedded in PDF certificates
+          </p>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <Card>
+            <CardHeader>
+              <CardTitle>Upload Font</CardTitle>
+              <CardDescription>
+                {FONT_FILE_EXTENSIONS.map((ext) => ext.toUpperCase()).join(', ')} files; upload each weight and
+                italic as its own face of the family
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="font-file">File</Label>
+                <Input
+                  id="font-file"
+                  ref={fileInputRef}
+                  type="file"
+                  accept={FONT_FILE_EXTENSIONS.map((ext) => `.${ext}`).join(',')}
+                  onChange={handleFileChange}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="font-family">Family</Label>
+                <Input
+                  id="font-family"
+                  placeholder="e.g. Brand Sans"
+                  value={family}
+                  onChange={(e) => setFamily(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Weight</Label>
+                <Select value={String(weight)} onValueChange={(v) => setWeight(Number(v))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(FONT_WEIGHTS).map(([value, name]) => (
+                      <SelectItem key={value} value={value}>
+                        {value} · {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="font-italic">Italic</Label>
+                <Switch id="font-italic" checked={italic} onCheckedChange={setItalic} />
+              </div>
+              <Button
+                className="w-full"
+                onClick={() => uploadMutation.mutate()}
+                disabled={!file || !family.trim() || uploadMutation.isPending}
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                {uploadMutation.isPending ? 'Uploading...' : 'Upload'}
+              </Button>
+            </CardContent>
+          </Card>
+
+          <div className="lg:col-span-2 space-y-4">
+            {families.length > 0 ? (
+              families.map((name) => (
+                <Card key={name}>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-lg">{name}</CardTitle>
+                  </CardHeader>
+                  <CardContent className="divide-y">
+                    {fonts
+                      .filter((font) => font.family === name)
+                      .map((font) => (
+                        <div key={font.id} className="flex items-center gap-4 py-2">
+                          <span className="w-32 shrink-0 text-sm text-muted-foreground">{fontFaceName(font)}</span>
+                          <span
+                            className="flex-1 truncate text-2xl"
+                            style={{ fontFamily: `"${font.family}"`, fontWeight: font.weight, fontStyle: font.style }}
+                          >
+                            Certificate of Achievement
+                          </span>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => deleteMutation.mutate(font)}
+                            disabled={deleteMutation.isPending}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      ))}
+                  </CardContent>
+                </Card>
+              ))
+            ) : (
+              <Card className="border-dashed">
+                <CardContent className="flex flex-col items-center justify-center py-16">
+                  <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
+                    <Type className="w-8 h-8 text-muted-foreground" />
+                  </div>
+                  <h3 className="text-lg font-semibold mb-2">No fonts yet</h3>
+                  <p className="text-muted-foreground text-center max-w-sm">
+                    Uploaded families appear in the template editor's font list next to the built-in ones.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -1,8 +1,9 @@
-import { useState, useEffect, useRef, lazy, Suspense } from 'react';
+import { useState, useEffect, useMemo, useRef, useCallback, lazy, Suspense } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import Papa from 'papaparse';
 import { useAuth } from '@/hooks/useAuth';
+import { useCustomFonts } from '@/hooks/useCustomFonts';
 import { supabase } from '@/integrations/supabase/client';
 import { useQuery } from '@tanstack/react-query';
 import DashboardLayout from '@/components/layout/DashboardLayout';
@@ -16,6 +17,18 @@ import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Progress } from '@/components/ui/progress';
 import { useToast } from '@/hooks/use-toast';
+import EmailTemplateEditor from '@/components/generate/EmailTemplateEditor';
+import type { PreviewTemplate } from '@/components/generate/CertificatePreview';
+import { archiveFileNames, DEFAULT_FILE_NAME_PATTERN } from '@/lib/certificates/archive';
+import { DEFAULT_EMAIL_TEMPLATE, type EmailTemplate } from '@/lib/certificates/email';
+import { OUTPUT_FORMATS, type OutputFormat } from '@/lib/certificates/formats';
+import { fieldDataKeys, isTextTemplate, templatePages } from '@/lib/certificates/layout';
+import { STORAGE_BUCKET, assetPath } from '@/lib/certificates/paths';
+import { rowValue } from '@/lib/certificates/placeholders';
+import { preflightRows, type PreflightIssue, type PreflightProblem } from '@/lib/certificates/preflight';
+import type { TemplateField } from '@/lib/certificates/types';
+import { variantTemplateId, variantTemplateIds, type TemplateVariants } from '@/lib/certificates/variants';
+import { sampleVerification } from '@/lib/certificates/verification';
 import { 
   Upload, 
   FileSpreadsheet, 
@@ -24,12 +37,23 @@ import {
   CheckCircle,
   Send,
   Download,
-  Eye
+  Eye,
+  Plus,
+  Trash2
 } from 'lucide-react';
 
+const PREFLIGHT_LABELS: Record<PreflightProblem, string> = {
+  overflow: 'Overflowing',
+  shrunk: 'Heavily shrunk',
+  missing_characters: 'Missing characters',
+  empty: 'Empty',
+};
+
 // Lazy load the preview component (uses react-konva)
 const CertificatePreview = lazy(() => import('@/components/generate/CertificatePreview'));
 
+const CERTIFICATE_INSERT_CHUNK = 500;
+
 interface CsvRow {
   [key: string]: string;
 }
@@ -43,14 +67,24 @@ export default function Generate() {
 
   const [step, setStep] = useState(1);
   const [selectedTemplateId, setSelectedTemplateId] = useState(searchParams.get('template') || '');
+  const [variantColumn, setVariantColumn] = useState('');
+  const [variantRows, setVariantRows] = useState<{ value: string; templateId: string }[]>([]);
   const [csvData, setCsvData] = useState<CsvRow[]>([]);
   const [csvHeaders, setCsvHeaders] = useState<string[]>([]);
   const [fieldMapping, setFieldMapping] = useState<Record<string, string>>({});
   const [sendEmails, setSendEmails] = useState(true);
   const [emailColumn, setEmailColumn] = useState('email');
+  const [emailDelivery, setEmailDelivery] = useState<'attachment' | 'link'>('attachment');
+  const [emailTemplate, setEmailTemplate] = useState<EmailTemplate>(DEFAULT_EMAIL_TEMPLATE);
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>('png');
+  const [fileNamePattern, setFileNamePattern] = useState(DEFAULT_FILE_NAME_PATTERN);
   const [isGenerating, setIsGenerating] = useState(false);
   const [showPreview, setShowPreview] = useState(false);
+  const [previewRow, setPreviewRow] = useState<number>();
+  const { families: customFamilies, measure } = useCustomFonts();
   const [generationProgress, setGenerationProgress] = useState(0);
+  const [uploadedImages, setUploadedImages] = useState<string[]>([]);
+  const [uploadingImages, setUploadingImages] = useState(false);
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -64,7 +98,7 @@ export default function Generate() {
     queryFn: async () => {
       const { data, error } = await supabase
         .from('certificate_templates')
-        .select('*, template_fields(*)')
+        .select('*, template_fields(*), template_pages(*), email_templates(*)')
         .order('created_at', { ascending: false });
       if (error) throw error;
       return data;
@@ -75,6 +109,145 @@ export default function Generate() {
   const selectedTemplate = templates?.find(t => t.id === selectedTemplateId);
   const templateFields = (selectedTemplate?.template_fields as any[]) || [];
 
+  // Variant rows that are filled in, as value → template id
+  const templateVariants = useMemo<TemplateVariants>(
+    () =>
+      Object.fromEntries(
+        variantRows.filter((v) => v.value.trim() && v.templateId).map((v) => [v.value.trim(), v.templateId])
+      ),
+    [variantRows]
+  );
+  const variantKey = variantColumn.trim() && Object.keys(templateVariants).length > 0 ? variantColumn.trim() : null;
+  // The selected template and the variants rows can switch to
+  const batchTemplates = selectedTemplate
+    ? variantTemplateIds(variantKey ? templateVariants : {}, selectedTemplate.id)
+        .map((id) => templates?.find((t) => t.id === id))
+        .filter((t) => !!t)
+    : [];
+  const batchFields = batchTemplates.flatMap((t) => t.template_fields as TemplateField[]);
+  const rowTemplateId = useCallback(
+    (row: CsvRow) => variantTemplateId(row, fieldMapping, variantKey, templateVariants, selectedTemplateId),
+    [fieldMapping, variantKey, templateVariants, selectedTemplateId]
+  );
+
+  // Verification values come from the certificate itself, so only the remaining keys need CSV columns
+  const dataKeys = [...new Set([...fieldDataKeys(batchFields), ...(variantKey ? [variantKey] : [])])];
+  // Image fields fed from a CSV column, whose values may be file names of images uploaded here
+  const hasRowImages = batchFields.some((f) => f.field_type === 'image' && f.content?.includes('{{'));
+  const savedEmailTemplate = selectedTemplate?.email_templates;
+  const pages = selectedTemplate ? templatePages(selectedTemplate, selectedTemplate.template_pages) : [];
+  // Only PDFs hold more than one page, so a multi-page variant makes every certificate a PDF
+  const multiPage = batchTemplates.some((t) => templatePages(t, t.template_pages).length > 1);
+
+  const templateFor = useCallback(
+    (row: CsvRow): PreviewTemplate | null => {
+      const template = templates?.find((t) => t.id === rowTemplateId(row));
+      if (!template) return null;
+      return {
+        template,
+        pages: templatePages(template, template.template_pages),
+        fields: template.template_fields as TemplateField[],
+      };
+    },
+    [templates, rowTemplateId]
+  );
+
+  // Start from the template's saved email, or the default one
+  useEffect(() => {
+    setEmailTemplate(
+      savedEmailTemplate
+        ? {
+            subject: savedEmailTemplate.subject,
+            body_html: savedEmailTemplate.body_html,
+            body_text: savedEmailTemplate.body_text,
+          }
+        : DEFAULT_EMAIL_TEMPLATE
+    );
+  }, [savedEmailTemplate]);
+
+  useEffect(() => {
+    if (multiPage) setOutputFormat('pdf');
+  }, [multiPage]);
+
+  // Lay out every row with its template as the renderer will and flag the ones that won't look right
+  const preflightIssues = useMemo(() => {
+    if (step !== 3 || !selectedTemplate) return [];
+    // Grown in place: copying the list per row is quadratic on the large CSVs this page takes
+    const rowsByTemplate = new Map<string, number[]>();
+    csvData.forEach((row, index) => {
+      const templateId = rowTemplateId(row);
+      const indexes = rowsByTemplate.get(templateId);
+      if (indexes) indexes.push(index);
+      else rowsByTemplate.set(templateId, [index]);
+    });
+
+    return [...rowsByTemplate]
+      .flatMap(([templateId, indexes]) => {
+        const variant = templateFor(csvData[indexes[0]]);
+        if (!variant) return [];
+        // Issues point into the rows passed, so map them back to the whole CSV
+        return preflightRows(
+          variant.pages,
+          variant.fields,
+          indexes.map((i) => csvData[i]),
+          fieldMapping,
+          measure,
+          outputFormat,
+          { verification: sampleVerification(window.location.origin) },
+          customFamilies
+        ).map((issue) => ({ ...issue, row: indexes[issue.row] }));
+      })
+      .sort((a, b) => a.row - b.row);
+    // `measure` changes once uploaded fonts have loaded, so rows are measured again with them
+  }, [step, selectedTemplate, csvData, rowTemplateId, templateFor, fieldMapping, measure, outputFormat, customFamilies]);
+
+  // How many rows each template issues, when variants are in use
+  const variantCounts = new Map<string, number>();
+  if (variantKey) {
+    for (const row of csvData) {
+      const templateId = rowTemplateId(row);
+      variantCounts.set(templateId, (variantCounts.get(templateId) ?? 0) + 1);
+    }
+  }
+
+  const flaggedRows = new Map<number, PreflightIssue[]>();
+  for (const issue of preflightIssues) {
+    const issues = flaggedRows.get(issue.row);
+    if (issues) issues.push(issue);
+    else flaggedRows.set(issue.row, [issue]);
+  }
+  const problemCounts = preflightIssues.reduce<Partial<Record<PreflightProblem, number>>>(
+    (counts, issue) => ({ ...counts, [issue.problem]: (counts[issue.problem] ?? 0) + 1 }),
+    {}
+  );
+
+  const openPreview = (row?: number) => {
+    setPreviewRow(row);
+    setShowPreview(true);
+  };
+
+  // Upload the images the CSV refers to by file name; re-uploading a name replaces that image
+  const handleImagesUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    if (files.length === 0 || !user) return;
+
+    setUploadingImages(true);
+    try {
+      for (const file of files) {
+        const { error } = await supabase.storage
+          .from(STORAGE_BUCKET)
+          .upload(assetPath(user.id, file.name), file, { upsert: true });
+        if (error) throw error;
+      }
+      setUploadedImages((names) => [...new Set([...names, ...files.map((f) => f.name)])]);
+      toast({ title: 'Images uploaded', description: `${files.length} images ready` });
+    } catch (error) {
+      toast({ title: 'Upload failed', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setUploadingImages(false);
+    }
+  };
+
   // Handle CSV upload
   const handleCsvUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -92,12 +265,12 @@ export default function Generate() {
 
         // Auto-map fields
         const mapping: Record<string, string> = {};
-        templateFields.forEach((field) => {
+        dataKeys.forEach((key) => {
           const matchingHeader = headers.find(
-            h => h.toLowerCase() === field.field_key.toLowerCase()
+            h => h.toLowerCase() === key.toLowerCase()
           );
           if (matchingHeader) {
-            mapping[field.field_key] = matchingHeader;
+            mapping[key] = matchingHeader;
           }
         });
         setFieldMapping(mapping);
@@ -117,7 +290,8 @@ export default function Generate() {
     });
   };
 
-  // Generate certificates (placeholder - actual generation would be in edge function)
+  // Queue certificates: create the batch and one record per row, then hand rendering to the
+  // process-batch edge function so it keeps going even if this tab is closed
   const handleGenerate = async () => {
     if (!selectedTemplate || csvData.length === 0) return;
 
@@ -125,14 +299,30 @@ export default function Generate() {
     setGenerationProgress(0);
 
     try {
-      // Create batch job
+      // Save the email so the delivery worker (and the next run) use it
+      if (sendEmails) {
+        const { error: emailTemplateError } = await supabase
+          .from('email_templates')
+          .upsert({ template_id: selectedTemplateId, ...emailTemplate }, { onConflict: 'template_id' });
+
+        if (emailTemplateError) throw emailTemplateError;
+      }
+
+      // Create batch job. It stays a draft, which the scheduled worker doesn't pick up, until all of
+      // its certificates are in
       const { data: batch, error: batchError } = await supabase
         .from('batch_jobs')
         .insert({
           user_id: user!.id,
           template_id: selectedTemplateId,
           name: `${selectedTemplate.name} - ${new Date().toLocaleDateString()}`,
-          status: 'processing',
+          status: 'draft',
+          output_format: outputFormat,
+          file_name_pattern: fileNamePattern,
+          field_mapping: fieldMapping,
+          variant_column: variantKey,
+          template_variants: variantKey ? templateVariants : {},
+          email_delivery: emailDelivery,
           total_count: csvData.length,
           csv_data: csvData,
         })
@@ -141,35 +331,52 @@ export default function Generate() {
 
       if (batchError) throw batchError;
 
-      // Simulate progress (in production, this would be handled by an edge function)
-      for (let i = 0; i < csvData.length; i++) {
-        const row = csvData[i];
-        
-        // Create certificate record
-        await supabase.from('certificates').insert({
-          batch_id: batch.id,
-          template_id: selectedTemplateId,
-          recipient_name: row[fieldMapping.name || 'name'] || 'Unknown',
-          recipient_email: sendEmails ? row[emailColumn] : null,
-          recipient_data: row,
-          email_status: sendEmails ? 'pending' : 'pending',
-        });
+      try {
+        // Create certificate records in chunks to keep request sizes reasonable
+        for (let start = 0; start < csvData.length; start += CERTIFICATE_INSERT_CHUNK) {
+          const chunk = csvData.slice(start, start + CERTIFICATE_INSERT_CHUNK);
+          const { error: certificatesError } = await supabase.from('certificates').insert(
+            chunk.map((row, i) => ({
+              batch_id: batch.id,
+              template_id: rowTemplateId(row),
+              row_index: start + i,
+              recipient_name: row[fieldMapping.name || 'name'] || 'Unknown',
+              recipient_email: sendEmails ? row[emailColumn] || null : null,
+              recipient_data: row,
+              email_status: sendEmails && row[emailColumn] ? 'pending' : 'skipped',
+            }))
+          );
 
-        setGenerationProgress(Math.round(((i + 1) / csvData.length) * 100));
+          if (certificatesError) throw certificatesError;
+
+          setGenerationProgress(Math.round(((start + chunk.length) / csvData.length) * 100));
+        }
+
+        const { error: queueError } = await supabase
+          .from('batch_jobs')
+          .update({ status: 'pending' })
+          .eq('id', batch.id);
+
+        if (queueError) throw queueError;
+      } catch (error) {
+        // Don't leave a half-filled batch behind; its certificates go with it
+        await supabase.from('batch_jobs').delete().eq('id', batch.id);
+        throw error;
       }
 
-      // Update batch status
-      await supabase
-        .from('batch_jobs')
-        .update({
-          status: 'completed',
-          generated_count: csvData.length,
-        })
-        .eq('id', batch.id);
+      // The batch is safely queued at this point; a failed kick-off is picked up by the scheduled run
+      // within a minute
+      const { error: invokeError } = await supabase.functions.invoke('process-batch', {
+        body: { batch_id: batch.id },
+      });
+
+      if (invokeError) {
+        console.error('Failed to start batch processing:', invokeError);
+      }
 
       toast({
-        title: 'Generation Complete',
-        description: `Created ${csvData.length} certificates`,
+        title: 'Generation started',
+        description: `Queued ${csvData.length} certificates`,
       });
 
       setStep(4);
@@ -265,7 +472,13 @@ export default function Generate() {
                       <div className="flex gap-1 mt-2">
                         {templateFields.map((f: any) => (
                           <Badge key={f.id} variant="secondary" className="text-xs">
-                            {`{{${f.field_key}}}`}
+                            {f.field_type === 'qr'
+                              ? 'QR code'
+                              : f.field_type === 'image'
+                                ? 'Image'
+                                : isTextTemplate(f)
+                                  ? f.label
+                                  : `{{${f.field_key}}}`}
                           </Badge>
                         ))}
                       </div>
@@ -273,6 +486,74 @@ export default function Generate() {
                   </div>
                 )}
 
+                {selectedTemplate && (
+                  <div className="space-y-3 p-4 rounded-lg border">
+                    <div>
+                      <h4 className="font-medium">Template Variants</h4>
+                      <p className="text-sm text-muted-foreground">
+                        Issue some rows with another template, picked by the value in a CSV column, e.g. Speaker
+                        and Organizer certificates. Other rows use {selectedTemplate.name}.
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-4">
+                      <Label className="w-32 text-right">Column</Label>
+                      <Input
+                        className="flex-1"
+                        placeholder="e.g. role"
+                        value={variantColumn}
+                        onChange={(e) => setVariantColumn(e.target.value)}
+                      />
+                    </div>
+                    {variantRows.map((variant, i) => (
+                      <div key={i} className="flex items-center gap-4">
+                        <Input
+                          className="w-32"
+                          placeholder="Value"
+                          value={variant.value}
+                          onChange={(e) =>
+                            setVariantRows(variantRows.map((v, j) => (j === i ? { ...v, value: e.target.value } : v)))
+                          }
+                        />
+                        <Select
+                          value={variant.templateId}
+                          onValueChange={(templateId) =>
+                            setVariantRows(variantRows.map((v, j) => (j === i ? { ...v, templateId } : v)))
+                          }
+                        >
+                          <SelectTrigger className="flex-1">
+                            <SelectValue placeholder="Choose a template" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {templates
+                              ?.filter((t) => t.id !== selectedTemplateId)
+                              .map((t) => (
+                                <SelectItem key={t.id} value={t.id}>
+                                  {t.name}
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setVariantRows(variantRows.filter((_, j) => j !== i))}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setVariantRows([...variantRows, { value: '', templateId: '' }])}
+                      disabled={!variantColumn.trim()}
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add Variant
+                    </Button>
+                  </div>
+                )}
+
                 <Button
                   onClick={() => setStep(2)}
                   disabled={!selectedTemplateId}
@@ -296,7 +577,7 @@ export default function Generate() {
               <CardHeader>
                 <CardTitle>Upload CSV Data</CardTitle>
                 <CardDescription>
-                  Upload a CSV file with recipient data. Required columns: {templateFields.map((f: any) => f.field_key).join(', ')}
+                  Upload a CSV file with recipient data. Required columns: {dataKeys.join(', ')}
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
@@ -328,7 +609,7 @@ export default function Generate() {
                     Your CSV should have headers matching the field keys in your template:
                   </p>
                   <code className="text-xs block mt-2 p-2 bg-background rounded">
-                    {templateFields.map((f: any) => f.field_key).join(',')},email
+                    {dataKeys.join(',')},email
                   </code>
                 </div>
 
@@ -355,13 +636,13 @@ export default function Generate() {
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
-                {templateFields.map((field: any) => (
-                  <div key={field.id} className="flex items-center gap-4">
-                    <Label className="w-32 text-right">{`{{${field.field_key}}}`}</Label>
+                {dataKeys.map((key) => (
+                  <div key={key} className="flex items-center gap-4">
+                    <Label className="w-32 text-right">{`{{${key}}}`}</Label>
                     <Select
-                      value={fieldMapping[field.field_key] || ''}
+                      value={fieldMapping[key] || ''}
                       onValueChange={(v) =>
-                        setFieldMapping({ ...fieldMapping, [field.field_key]: v })
+                        setFieldMapping({ ...fieldMapping, [key]: v })
                       }
                     >
                       <SelectTrigger className="flex-1">
@@ -375,6 +656,91 @@ export default function Generate() {
                     </Select>
                   </div>
                 ))}
+                {variantKey && (
+                  <div className="flex flex-wrap items-center gap-2 pt-2">
+                    <span className="text-sm text-muted-foreground">Templates by {`{{${variantKey}}}`}:</span>
+                    {batchTemplates.map((t) => (
+                      <Badge key={t.id} variant="outline">
+                        {t.name}: {variantCounts.get(t.id) ?? 0}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {hasRowImages && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Images</CardTitle>
+                  <CardDescription>
+                    Upload the images your CSV names by file name, e.g. photo.jpg. Rows can also give full image URLs.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  <Input type="file" accept="image/*" multiple onChange={handleImagesUpload} disabled={uploadingImages} />
+                  {uploadedImages.length > 0 && (
+                    <p className="text-sm text-muted-foreground">
+                      {uploadedImages.length} images uploaded: {uploadedImages.slice(0, 5).join(', ')}
+                      {uploadedImages.length > 5 && '…'}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Output Format</CardTitle>
+                <CardDescription>
+                  PDFs keep names as selectable text; images are rendered at the template's full resolution
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center gap-4">
+                  <Label className="w-32 text-right">Format</Label>
+                  <Select value={outputFormat} onValueChange={(v) => setOutputFormat(v as OutputFormat)}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(OUTPUT_FORMATS) as OutputFormat[]).map((format) => (
+                        <SelectItem key={format} value={format} disabled={multiPage && format !== 'pdf'}>
+                          {OUTPUT_FORMATS[format].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {multiPage && (
+                  <p className="text-xs text-muted-foreground pl-36">
+                    {pages.length > 1 ? `This template has ${pages.length} pages` : 'A variant template has several pages'},
+                    so each certificate is a multi-page PDF
+                  </p>
+                )}
+                <div className="flex items-center gap-4">
+                  <Label className="w-32 text-right">File names</Label>
+                  <div className="flex-1 space-y-1">
+                    <Input
+                      value={fileNamePattern}
+                      onChange={(e) => setFileNamePattern(e.target.value)}
+                      placeholder="{{name}}-{{course}}"
+                    />
+                    {csvData.length > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        Files in the ZIP download will be named like{' '}
+                        <code>
+                          {archiveFileNames(
+                            [{ row: csvData[0], rowNumber: 1 }],
+                            fileNamePattern,
+                            fieldMapping,
+                            OUTPUT_FORMATS[outputFormat].extension
+                          )[0]}
+                        </code>
+                      </p>
+                    )}
+                  </div>
+                </div>
               </CardContent>
             </Card>
 
@@ -407,6 +773,32 @@ export default function Generate() {
                     </Select>
                   </div>
                 )}
+
+                {sendEmails && (
+                  <div className="flex items-center gap-4">
+                    <Label className="w-32 text-right">Delivery</Label>
+                    <Select value={emailDelivery} onValueChange={(v) => setEmailDelivery(v as 'attachment' | 'link')}>
+                      <SelectTrigger className="flex-1">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="attachment">Attach the certificate</SelectItem>
+                        <SelectItem value="link">Send a download link</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {sendEmails && (
+                  <EmailTemplateEditor
+                    value={emailTemplate}
+                    onChange={setEmailTemplate}
+                    templateName={selectedTemplate?.name || ''}
+                    fieldKeys={dataKeys}
+                    csvData={csvData}
+                    fieldMapping={fieldMapping}
+                  />
+                )}
               </CardContent>
             </Card>
 
@@ -443,13 +835,63 @@ export default function Generate() {
               </CardContent>
             </Card>
 
+            <Card>
+              <CardHeader>
+                <CardTitle>Pre-flight Check</CardTitle>
+                <CardDescription>
+                  {flaggedRows.size === 0
+                    ? `All ${csvData.length} records fit their fields`
+                    : `${flaggedRows.size} of ${csvData.length} records may not look right; click one to preview it`}
+                </CardDescription>
+              </CardHeader>
+              {flaggedRows.size > 0 && (
+                <CardContent className="space-y-3">
+                  <div className="flex flex-wrap gap-2">
+                    {(Object.keys(PREFLIGHT_LABELS) as PreflightProblem[])
+                      .filter((problem) => problemCounts[problem])
+                      .map((problem) => (
+                        <Badge key={problem} variant="outline">
+                          {PREFLIGHT_LABELS[problem]}: {problemCounts[problem]}
+                        </Badge>
+                      ))}
+                  </div>
+                  <div className="border rounded-lg overflow-auto max-h-64 divide-y">
+                    {[...flaggedRows].slice(0, 100).map(([row, issues]) => (
+                      <button
+                        key={row}
+                        type="button"
+                        className="w-full flex items-start gap-3 p-3 text-left hover:bg-muted transition-colors"
+                        onClick={() => openPreview(row)}
+                      >
+                        <AlertCircle className="w-4 h-4 mt-0.5 shrink-0 text-destructive" />
+                        <div className="space-y-1">
+                          <div className="text-sm font-medium">
+                            Record {row + 1}
+                            {rowValue('name', csvData[row], fieldMapping) && ` · ${rowValue('name', csvData[row], fieldMapping)}`}
+                          </div>
+                          {issues.map((issue, i) => (
+                            <div key={i} className="text-xs text-muted-foreground">
+                              {issue.label}: {issue.detail}
+                            </div>
+                          ))}
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                  {flaggedRows.size > 100 && (
+                    <p className="text-sm text-muted-foreground">And {flaggedRows.size - 100} more records...</p>
+                  )}
+                </CardContent>
+              )}
+            </Card>
+
             <div className="flex gap-2">
               <Button variant="outline" onClick={() => setStep(2)} className="flex-1">
                 Back
               </Button>
               <Button
                 variant="secondary"
-                onClick={() => setShowPreview(true)}
+                onClick={() => openPreview()}
                 disabled={!selectedTemplate || csvData.length === 0}
               >
                 <Eye className="w-4 h-4 mr-2" />
@@ -457,7 +899,7 @@ export default function Generate() {
               </Button>
               <Button onClick={handleGenerate} disabled={isGenerating} className="flex-1">
                 {isGenerating ? (
-                  <>Generating...</>
+                  <>Queuing...</>
                 ) : (
                   <>
                     <Send className="w-4 h-4 mr-2" />
@@ -472,8 +914,8 @@ export default function Generate() {
               <CertificatePreview
                 open={showPreview}
                 onOpenChange={setShowPreview}
-                template={selectedTemplate || null}
-                templateFields={templateFields}
+                startIndex={previewRow}
+                templateFor={templateFor}
                 csvData={csvData}
                 fieldMapping={fieldMapping}
               />
@@ -484,7 +926,7 @@ export default function Generate() {
                 <CardContent className="py-6">
                   <div className="space-y-2">
                     <div className="flex justify-between text-sm">
-                      <span>Generating certificates...</span>
+                      <span>Queuing certificates...</span>
                       <span>{generationProgress}%</span>
                     </div>
                     <Progress value={generationProgress} />
@@ -506,10 +948,11 @@ export default function Generate() {
                 <div className="w-16 h-16 rounded-full bg-success/10 flex items-center justify-center mx-auto mb-4">
                   <CheckCircle className="w-8 h-8 text-success" />
                 </div>
-                <h2 className="text-2xl font-bold mb-2">Generation Complete!</h2>
+                <h2 className="text-2xl font-bold mb-2">Generation Started!</h2>
                 <p className="text-muted-foreground mb-6">
-                  Successfully created {csvData.length} certificates
-                  {sendEmails && ' and queued them for email delivery'}
+                  {csvData.length} certificates are being generated in the background
+                  {sendEmails && ' and will then be queued for email delivery'}.
+                  You can close this page and follow progress in History.
                 </p>
                 <div className="flex gap-2 justify-center">
                   <Button variant="outline" onClick={() => navigate('/history')}>
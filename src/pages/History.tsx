@@ -49,6 +49,9 @@ export default function History() {
       return data;
     },
     enabled: !!user,
+    // Batches render server-side; keep polling while any of them is still in flight
+    refetchInterval: (query) =>
+      query.state.data?.some((b) => b.status === 'pending' || b.status === 'processing') ? 3000 : false,
   });
 
   if (authLoading || isLoading) {
@@ -107,6 +110,7 @@ export default function History() {
                             <span>
                               {format(new Date(batch.created_at), 'MMM d, yyyy h:mm a')}
                             </span>
+                            <span className="uppercase">{batch.output_format}</span>
                           </CardDescription>
                         </div>
                         <div className="flex gap-2">
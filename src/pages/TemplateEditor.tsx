@@ -1,10 +1,15 @@
 // Template Editor with Konva.js canvas
-import { useState, useRef, useEffect, useCallback } from 'react';
+import { Fragment, useState, useRef, useEffect, useCallback } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
-import { Stage, Layer, Image as KonvaImage, Text, Transformer, Rect } from 'react-konva';
+import { Stage, Layer, Image as KonvaImage, Transformer, Rect, Line } from 'react-konva';
 import useImage from 'use-image';
 import Konva from 'konva';
 import { useAuth } from '@/hooks/useAuth';
+import { useCustomFonts } from '@/hooks/useCustomFonts';
+import { useEditorShortcuts } from '@/hooks/useEditorShortcuts';
+import { useFieldClipboard } from '@/hooks/useFieldClipboard';
+import { useFieldSelection } from '@/hooks/useFieldSelection';
+import { useTemplateDesign } from '@/hooks/useTemplateDesign';
 import { supabase } from '@/integrations/supabase/client';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import DashboardLayout from '@/components/layout/DashboardLayout';
@@ -12,9 +17,44 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
+import {
+  DEFAULT_IMAGE_SIZE,
+  DEFAULT_QR_SIZE,
+  LINE_HEIGHT,
+  getFieldValue,
+  isTextTemplate,
+  layoutField,
+  pageFields,
+  templatePages,
+} from '@/lib/certificates/layout';
+import { STORAGE_BUCKET, assetPath } from '@/lib/certificates/paths';
+import { qrContentForMode, qrContentMode, type QrContentMode } from '@/lib/certificates/qr';
+import { isVerificationField, sampleVerification } from '@/lib/certificates/verification';
+import ImageShape from '@/components/generate/ImageShape';
+import QrShape from '@/components/generate/QrShape';
+import TextShape from '@/components/generate/TextShape';
+import { toShowWhen } from '@/lib/certificates/conditions';
+import { DEFAULT_MIN_FONT_SIZE, toTextFit } from '@/lib/certificates/fit';
+import { FONT_WEIGHTS } from '@/lib/certificates/fonts';
+import { FORMATTER_EXAMPLES } from '@/lib/certificates/formatters';
+import { measureText } from '@/lib/certificates/measure';
+import { sharedValue, shiftFontSizes } from '@/lib/certificates/selection';
+import {
+  alignOffsets,
+  boundingBox,
+  distributeOffsets,
+  elementBox,
+  snapBox,
+  type Alignment,
+  type SnapGuide,
+} from '@/lib/certificates/snapping';
+import { toTextTransform } from '@/lib/certificates/text';
 import { 
   Upload, 
   Plus, 
@@ -24,7 +64,24 @@ import {
   Type,
   Palette,
   Move,
-  GripVertical
+  GripVertical,
+  ShieldCheck,
+  QrCode,
+  TextQuote,
+  Undo2,
+  Redo2,
+  AlignStartVertical,
+  AlignCenterVertical,
+  AlignEndVertical,
+  AlignStartHorizontal,
+  AlignCenterHorizontal,
+  AlignEndHorizontal,
+  AlignHorizontalDistributeCenter,
+  AlignVerticalDistributeCenter,
+  Copy,
+  CopyPlus,
+  ClipboardPaste,
+  Image as ImageIcon
 } from 'lucide-react';
 
 interface TemplateField {
@@ -37,7 +94,47 @@ interface TemplateField {
   font_family: string;
   font_color: string;
   text_align: string;
-  max_width?: number;
+  max_width?: number | null;
+  max_height?: number | null;
+  text_fit?: string | null;
+  min_font_size?: number | null;
+  max_lines?: number | null;
+  font_weight?: number;
+  font_italic?: boolean;
+  underline?: boolean;
+  letter_spacing?: number;
+  line_height?: number;
+  text_transform?: string;
+  stroke_color?: string | null;
+  stroke_width?: number;
+  shadow_color?: string | null;
+  shadow_blur?: number;
+  shadow_offset_x?: number;
+  shadow_offset_y?: number;
+  default_value?: string | null;
+  show_when?: string | null;
+  show_when_key?: string | null;
+  show_when_value?: string | null;
+  field_type?: string;
+  width?: number | null;
+  height?: number | null;
+  content?: string | null;
+  image_fit?: string | null;
+  image_mask?: string | null;
+  page_index?: number;
+}
+
+// An empty number input clears the setting
+function optionalNumber(value: string) {
+  return value === '' ? null : Number(value);
+}
+
+// Built-in fonts come in regular and bold; uploaded families in the weights that were uploaded
+function availableWeights(family: string, fonts: { family: string; weight: number }[], current: number) {
+  const uploaded = fonts.filter((font) => font.family === family).map((font) => font.weight);
+  const weights = new Set(uploaded.length > 0 ? uploaded : [400, 700]);
+  weights.add(current);
+  return [...weights].sort((a, b) => a - b);
 }
 
 const FONTS = [
@@ -59,6 +156,74 @@ const FIELD_PRESETS = [
   { key: 'organization', label: 'Organization' },
 ];
 
+// An image field shows one uploaded file, or the image named by a CSV column in each row
+function imageFromColumn(content: string) {
+  return /^\{\{[^{}]*\}\}$/.test(content.trim());
+}
+
+// Fields filled from the certificate itself rather than the CSV
+const VERIFICATION_PRESETS = [
+  { key: 'verification_code', label: 'Verification Code' },
+  { key: 'verification_url', label: 'Verification Link' },
+];
+
+// How close, in screen pixels, a dragged field must come to a line to snap to it
+const SNAP_THRESHOLD = 6;
+const GRID_SIZE = 20;
+
+const ALIGNMENTS: { alignment: Alignment; label: string; icon: typeof AlignStartVertical }[] = [
+  { alignment: 'left', label: 'Align left', icon: AlignStartVertical },
+  { alignment: 'center', label: 'Align centers horizontally', icon: AlignCenterVertical },
+  { alignment: 'right', label: 'Align right', icon: AlignEndVertical },
+  { alignment: 'top', label: 'Align top', icon: AlignStartHorizontal },
+  { alignment: 'middle', label: 'Align centers vertically', icon: AlignCenterHorizontal },
+  { alignment: 'bottom', label: 'Align bottom', icon: AlignEndHorizontal },
+];
+
+// The font family options: built-in fonts, then uploads, then `current` if it is neither
+function FontSelectItems({ customFamilies, current }: { customFamilies: string[]; current?: string }) {
+  return (
+    <>
+      <SelectGroup>
+        <SelectLabel>Built-in</SelectLabel>
+        {FONTS.map((font) => (
+          <SelectItem key={font} value={font}>{font}</SelectItem>
+        ))}
+      </SelectGroup>
+      {customFamilies.length > 0 && (
+        <SelectGroup>
+          <SelectLabel>Uploaded</SelectLabel>
+          {customFamilies.map((font) => (
+            <SelectItem key={font} value={font} style={{ fontFamily: `"${font}"` }}>
+              {font}
+            </SelectItem>
+          ))}
+        </SelectGroup>
+      )}
+      {/* A family whose upload has since been deleted */}
+      {current && !FONTS.includes(current) && !customFamilies.includes(current) && (
+        <SelectItem value={current}>{current} (missing)</SelectItem>
+      )}
+    </>
+  );
+}
+
+// Faint lines every GRID_SIZE pixels, kept one screen pixel wide at any zoom
+function GridLines({ width, height, scale }: { width: number; height: number; scale: number }) {
+  const xs = Array.from({ length: Math.floor(width / GRID_SIZE) }, (_, i) => (i + 1) * GRID_SIZE);
+  const ys = Array.from({ length: Math.floor(height / GRID_SIZE) }, (_, i) => (i + 1) * GRID_SIZE);
+  return (
+    <>
+      {xs.map((x) => (
+        <Line key={`x${x}`} points={[x, 0, x, height]} stroke="#6366f1" opacity={0.15} strokeWidth={1 / scale} listening={false} />
+      ))}
+      {ys.map((y) => (
+        <Line key={`y${y}`} points={[0, y, width, y]} stroke="#6366f1" opacity={0.15} strokeWidth={1 / scale} listening={false} />
+      ))}
+    </>
+  );
+}
+
 export default function TemplateEditor() {
   const { id } = useParams();
   const navigate = useNavigate();
@@ -66,20 +231,59 @@ export default function TemplateEditor() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const addPageInputRef = useRef<HTMLInputElement>(null);
   const stageRef = useRef<Konva.Stage>(null);
+  const { fonts: customFonts, families: customFamilies, version: fontsVersion } = useCustomFonts();
   const transformerRef = useRef<Konva.Transformer>(null);
 
   const [templateName, setTemplateName] = useState('');
   const [templateDescription, setTemplateDescription] = useState('');
-  const [imageUrl, setImageUrl] = useState('');
-  const [imageDimensions, setImageDimensions] = useState({ width: 800, height: 600 });
-  const [fields, setFields] = useState<TemplateField[]>([]);
-  const [selectedFieldId, setSelectedFieldId] = useState<string | null>(null);
+  const [issuerName, setIssuerName] = useState('');
+  const {
+    pages,
+    fields,
+    setDesign,
+    resetDesign,
+    changeFields,
+    updateFields,
+    moveFields,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  } = useTemplateDesign<TemplateField>();
+  const [currentPage, setCurrentPage] = useState(0);
+  const {
+    selectedIds: selectedFieldIds,
+    selectedId: selectedFieldId,
+    setSelectedIds: setSelectedFieldIds,
+    select: selectField,
+    deselect,
+    dragGroup,
+    marqueeArea,
+    startMarquee,
+    extendMarquee,
+    finishMarquee,
+  } = useFieldSelection();
+  const [snapping, setSnapping] = useState(true);
+  const [showGrid, setShowGrid] = useState(false);
+  // The lines the field being dragged has snapped to
+  const [guides, setGuides] = useState<SnapGuide[]>([]);
+  // Every field in a group drag ends its own drag; the first to end saves them all
+  const dragSaved = useRef(false);
   const [uploading, setUploading] = useState(false);
   const [saving, setSaving] = useState(false);
 
+  const page = pages[currentPage];
+  const imageUrl = page?.image_url ?? '';
+  const imageDimensions = page ? { width: page.image_width, height: page.image_height } : { width: 800, height: 600 };
   const [image] = useImage(imageUrl, 'anonymous');
 
+  // Text drawn before an uploaded font finished loading used a fallback
+  useEffect(() => {
+    stageRef.current?.batchDraw();
+  }, [fontsVersion]);
+
   const isEditMode = !!id;
 
   // Fetch existing template
@@ -89,7 +293,7 @@ export default function TemplateEditor() {
       if (!id) return null;
       const { data, error } = await supabase
         .from('certificate_templates')
-        .select('*, template_fields(*)')
+        .select('*, template_fields(*), template_pages(*)')
         .eq('id', id)
         .single();
       if (error) throw error;
@@ -103,20 +307,62 @@ export default function TemplateEditor() {
     if (existingTemplate) {
       setTemplateName(existingTemplate.name);
       setTemplateDescription(existingTemplate.description || '');
-      setImageUrl(existingTemplate.image_url);
-      setImageDimensions({
-        width: existingTemplate.image_width,
-        height: existingTemplate.image_height,
-      });
-      setFields(
-        (existingTemplate.template_fields as TemplateField[]).map((f) => ({
+      setIssuerName(existingTemplate.issuer_name || '');
+      resetDesign({
+        pages: templatePages(existingTemplate, existingTemplate.template_pages).map((p, index) => ({
+          page_index: index,
+          image_url: p.image_url,
+          image_width: p.image_width,
+          image_height: p.image_height,
+        })),
+        fields: (existingTemplate.template_fields as TemplateField[]).map((f) => ({
           ...f,
           x: Number(f.x),
           y: Number(f.y),
-        }))
-      );
+        })),
+      });
+      setCurrentPage(0);
     }
-  }, [existingTemplate]);
+  }, [existingTemplate, resetDesign]);
+
+  // Copies land selected
+  const addCopies = useCallback(
+    (copies: TemplateField[]) => {
+      changeFields((current) => [...current, ...copies]);
+      setSelectedFieldIds(copies.map((f) => f.id));
+    },
+    [changeFields, setSelectedFieldIds]
+  );
+
+  const {
+    canPaste,
+    copy: copySelection,
+    paste: pasteClipboard,
+    duplicate: duplicateSelection,
+  } = useFieldClipboard({ fields, selectedIds: selectedFieldIds, page: currentPage, add: addCopies });
+
+  const nudgeSelection = useCallback(
+    (dx: number, dy: number) => {
+      moveFields(new Map(selectedFieldIds.map((id) => [id, { dx, dy }])), `nudge:${selectedFieldIds.join(',')}`);
+    },
+    [moveFields, selectedFieldIds]
+  );
+
+  useEditorShortcuts({
+    hasSelection: selectedFieldIds.length > 0,
+    canPaste,
+    undo,
+    redo,
+    nudge: nudgeSelection,
+    copy: copySelection,
+    paste: pasteClipboard,
+    duplicate: duplicateSelection,
+  });
+
+  // Undoing an added page can leave the current one gone
+  useEffect(() => {
+    if (pages.length > 0 && currentPage >= pages.length) setCurrentPage(pages.length - 1);
+  }, [pages.length, currentPage]);
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -124,9 +370,33 @@ export default function TemplateEditor() {
     }
   }, [user, authLoading, navigate]);
 
+  // Set the current page's background, or append a new page with it
+  const placeBackground = (mode: 'replace' | 'add', image_url: string, width?: number, height?: number) => {
+    if (mode === 'add' || pages.length === 0) {
+      setDesign((design) => ({
+        ...design,
+        pages: [
+          ...design.pages,
+          { page_index: design.pages.length, image_url, image_width: width ?? 800, image_height: height ?? 600 },
+        ],
+      }));
+      switchPage(pages.length);
+      return;
+    }
+    setDesign((design) => ({
+      ...design,
+      pages: design.pages.map((p, index) =>
+        index === currentPage
+          ? { ...p, image_url, image_width: width ?? p.image_width, image_height: height ?? p.image_height }
+          : p
+      ),
+    }));
+  };
+
   // Handle image upload
-  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>, mode: 'replace' | 'add' = 'replace') => {
     const file = e.target.files?.[0];
+    e.target.value = '';
     if (!file || !user) return;
 
     if (!file.type.startsWith('image/')) {
@@ -152,12 +422,11 @@ export default function TemplateEditor() {
       // Get image dimensions
       const img = document.createElement('img');
       img.onload = () => {
-        setImageDimensions({ width: img.naturalWidth, height: img.naturalHeight });
-        setImageUrl(publicUrl);
+        placeBackground(mode, publicUrl, img.naturalWidth, img.naturalHeight);
         setUploading(false);
       };
       img.onerror = () => {
-        setImageUrl(publicUrl);
+        placeBackground(mode, publicUrl);
         setUploading(false);
       };
       img.src = publicUrl;
@@ -167,10 +436,27 @@ export default function TemplateEditor() {
     }
   };
 
+  const switchPage = (index: number) => {
+    setCurrentPage(index);
+    setSelectedFieldIds([]);
+  };
+
+  // Drop a page with its fields; later pages move up one
+  const removePage = (index: number) => {
+    setDesign((design) => ({
+      pages: design.pages.filter((_, i) => i !== index).map((p, i) => ({ ...p, page_index: i })),
+      fields: design.fields
+        .filter((f) => (f.page_index ?? 0) !== index)
+        .map((f) => ((f.page_index ?? 0) > index ? { ...f, page_index: (f.page_index ?? 0) - 1 } : f)),
+    }));
+    switchPage(Math.max(0, index - 1));
+  };
+
   // Add a new field
-  const addField = (preset?: typeof FIELD_PRESETS[0]) => {
+  const addField = (preset?: typeof FIELD_PRESETS[0], fieldType = 'text') => {
     const newField: TemplateField = {
       id: `temp-${Date.now()}`,
+      field_type: fieldType,
       field_key: preset?.key || 'custom',
       label: preset?.label || 'Custom Field',
       x: imageDimensions.width / 2,
@@ -179,34 +465,154 @@ export default function TemplateEditor() {
       font_family: 'Arial',
       font_color: '#000000',
       text_align: 'center',
+      page_index: currentPage,
     };
-    setFields([...fields, newField]);
-    setSelectedFieldId(newField.id);
+    changeFields((current) => [...current, newField]);
+    setSelectedFieldIds([newField.id]);
   };
 
-  // Update field
-  const updateField = (fieldId: string, updates: Partial<TemplateField>) => {
-    setFields(fields.map(f => f.id === fieldId ? { ...f, ...updates } : f));
+  // A sentence with the row's values in it, wrapped to a width
+  const addTextBlock = () => {
+    const newField: TemplateField = {
+      id: `temp-${Date.now()}`,
+      field_type: 'text',
+      field_key: 'text',
+      label: 'Text Block',
+      content: 'awarded to {{name}} for completing {{course}} on {{date}}',
+      x: imageDimensions.width / 2,
+      y: imageDimensions.height / 2,
+      font_size: 24,
+      font_family: 'Arial',
+      font_color: '#000000',
+      text_align: 'center',
+      max_width: Math.round(imageDimensions.width * 0.6),
+      text_fit: 'wrap',
+      page_index: currentPage,
+    };
+    changeFields((current) => [...current, newField]);
+    setSelectedFieldIds([newField.id]);
+  };
+
+  const addQrField = () => {
+    const newField: TemplateField = {
+      id: `temp-${Date.now()}`,
+      field_type: 'qr',
+      field_key: 'qr_code',
+      label: 'QR Code',
+      x: (imageDimensions.width - DEFAULT_QR_SIZE) / 2,
+      y: (imageDimensions.height - DEFAULT_QR_SIZE) / 2,
+      width: DEFAULT_QR_SIZE,
+      height: DEFAULT_QR_SIZE,
+      content: '{{verification_url}}',
+      font_size: 32,
+      font_family: 'Arial',
+      font_color: '#000000',
+      text_align: 'left',
+      page_index: currentPage,
+    };
+    changeFields((current) => [...current, newField]);
+    setSelectedFieldIds([newField.id]);
+  };
+
+  const addImageField = () => {
+    const newField: TemplateField = {
+      id: `temp-${Date.now()}`,
+      field_type: 'image',
+      field_key: 'image',
+      label: 'Image',
+      x: (imageDimensions.width - DEFAULT_IMAGE_SIZE) / 2,
+      y: (imageDimensions.height - DEFAULT_IMAGE_SIZE) / 2,
+      width: DEFAULT_IMAGE_SIZE,
+      height: DEFAULT_IMAGE_SIZE,
+      content: '',
+      image_fit: 'contain',
+      image_mask: null,
+      font_size: 32,
+      font_family: 'Arial',
+      font_color: '#000000',
+      text_align: 'left',
+      page_index: currentPage,
+    };
+    changeFields((current) => [...current, newField]);
+    setSelectedFieldIds([newField.id]);
+  };
+
+  // Signatures, logos and the like are stored once and shown on every certificate
+  const handleAssetUpload = async (fieldId: string, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file || !user) return;
+
+    if (!file.type.startsWith('image/')) {
+      toast({ title: 'Error', description: 'Please upload an image file', variant: 'destructive' });
+      return;
+    }
+
+    try {
+      const fileExt = file.name.split('.').pop();
+      const path = assetPath(user.id, `${Date.now()}.${fileExt}`);
+      const { error: uploadError } = await supabase.storage.from(STORAGE_BUCKET).upload(path, file);
+      if (uploadError) throw uploadError;
+
+      const { data: { publicUrl } } = supabase.storage.from(STORAGE_BUCKET).getPublicUrl(path);
+      updateField(fieldId, { content: publicUrl });
+    } catch (error) {
+      toast({ title: 'Upload failed', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  // The Transformer resizes a lone QR code or image (text is sized by its font instead), and holds a
+  // multiple selection together so dragging any of its fields moves them all
+  useEffect(() => {
+    const transformer = transformerRef.current;
+    if (!transformer) return;
+    const selected = fields.filter((f) => selectedFieldIds.includes(f.id));
+    const attached =
+      selected.length > 1 ? selected : selected.filter((f) => f.field_type === 'qr' || f.field_type === 'image');
+    transformer.nodes(attached.flatMap((f) => stageRef.current?.findOne(`#${f.id}`) ?? []));
+    transformer.getLayer()?.batchDraw();
+  }, [fields, selectedFieldIds]);
+
+  const handleTransformEnd = (fieldId: string, e: Konva.KonvaEventObject<Event>) => {
+    const node = e.target;
+    const width = Math.round(Math.max(24, node.width() * node.scaleX()));
+    const height = Math.round(Math.max(24, node.height() * node.scaleY()));
+    node.scaleX(1);
+    node.scaleY(1);
+    // QR codes stay square
+    const square = fields.find((f) => f.id === fieldId)?.field_type === 'qr';
+    updateField(fieldId, { x: node.x(), y: node.y(), width, height: square ? width : height }, false);
+  };
+
+  const updateField = (fieldId: string, updates: Partial<TemplateField>, coalesce = true) => {
+    updateFields([fieldId], updates, coalesce);
   };
 
   // Remove field
   const removeField = (fieldId: string) => {
-    setFields(fields.filter(f => f.id !== fieldId));
-    if (selectedFieldId === fieldId) setSelectedFieldId(null);
+    changeFields((current) => current.filter((f) => f.id !== fieldId));
+    deselect(fieldId);
+  };
+
+  // Dragging a field outside the selection selects it instead
+  const handleDragStart = (fieldId: string) => {
+    dragSaved.current = false;
+    if (!selectedFieldIds.includes(fieldId)) setSelectedFieldIds([fieldId]);
   };
 
-  // Handle drag end
+  // Handle drag end: the group moved as one, so every field in it shifts as far as this one did
   const handleDragEnd = (fieldId: string, e: Konva.KonvaEventObject<DragEvent>) => {
-    updateField(fieldId, {
-      x: e.target.x(),
-      y: e.target.y(),
-    });
+    setGuides([]);
+    const field = fields.find((f) => f.id === fieldId);
+    if (dragSaved.current || !field) return;
+    dragSaved.current = true;
+    const offset = { dx: e.target.x() - field.x, dy: e.target.y() - field.y };
+    moveFields(new Map(dragGroup(fieldId).map((id) => [id, offset])));
   };
 
   // Save template
   const saveMutation = useMutation({
     mutationFn: async () => {
-      if (!user || !imageUrl || !templateName) {
+      if (!user || pages.length === 0 || !templateName) {
         throw new Error('Missing required fields');
       }
 
@@ -221,16 +627,21 @@ export default function TemplateEditor() {
           .update({
             name: templateName,
             description: templateDescription,
-            image_url: imageUrl,
-            image_width: imageDimensions.width,
-            image_height: imageDimensions.height,
+            issuer_name: issuerName || null,
+            image_url: pages[0].image_url,
+            image_width: pages[0].image_width,
+            image_height: pages[0].image_height,
           })
           .eq('id', id);
 
         if (error) throw error;
 
-        // Delete existing fields
-        await supabase.from('template_fields').delete().eq('template_id', id);
+        // Delete existing fields and pages
+        const { error: deleteFieldsError } = await supabase.from('template_fields').delete().eq('template_id', id);
+        if (deleteFieldsError) throw deleteFieldsError;
+
+        const { error: deletePagesError } = await supabase.from('template_pages').delete().eq('template_id', id);
+        if (deletePagesError) throw deletePagesError;
       } else {
         // Create new template
         const { data, error } = await supabase
@@ -239,9 +650,10 @@ export default function TemplateEditor() {
             user_id: user.id,
             name: templateName,
             description: templateDescription,
-            image_url: imageUrl,
-            image_width: imageDimensions.width,
-            image_height: imageDimensions.height,
+            issuer_name: issuerName || null,
+            image_url: pages[0].image_url,
+            image_width: pages[0].image_width,
+            image_height: pages[0].image_height,
           })
           .select()
           .single();
@@ -250,6 +662,20 @@ export default function TemplateEditor() {
         templateId = data.id;
       }
 
+      if (templateId) {
+        const { error: pagesError } = await supabase.from('template_pages').insert(
+          pages.map((p, index) => ({
+            template_id: templateId,
+            page_index: index,
+            image_url: p.image_url,
+            image_width: p.image_width,
+            image_height: p.image_height,
+          }))
+        );
+
+        if (pagesError) throw pagesError;
+      }
+
       // Insert fields
       if (fields.length > 0 && templateId) {
         const { error: fieldsError } = await supabase
@@ -257,6 +683,7 @@ export default function TemplateEditor() {
           .insert(
             fields.map(f => ({
               template_id: templateId,
+              field_type: f.field_type || 'text',
               field_key: f.field_key,
               label: f.label,
               x: f.x,
@@ -266,6 +693,32 @@ export default function TemplateEditor() {
               font_color: f.font_color,
               text_align: f.text_align,
               max_width: f.max_width,
+              max_height: f.max_height,
+              text_fit: f.text_fit || 'none',
+              min_font_size: f.min_font_size,
+              max_lines: f.max_lines,
+              font_weight: f.font_weight ?? 400,
+              font_italic: f.font_italic ?? false,
+              underline: f.underline ?? false,
+              letter_spacing: f.letter_spacing ?? 0,
+              line_height: f.line_height ?? LINE_HEIGHT,
+              text_transform: f.text_transform || 'none',
+              stroke_color: f.stroke_color,
+              stroke_width: f.stroke_width ?? 0,
+              shadow_color: f.shadow_color,
+              shadow_blur: f.shadow_blur ?? 0,
+              shadow_offset_x: f.shadow_offset_x ?? 0,
+              shadow_offset_y: f.shadow_offset_y ?? 0,
+              default_value: f.default_value || null,
+              show_when: f.show_when || 'always',
+              show_when_key: f.show_when_key,
+              show_when_value: f.show_when_value,
+              width: f.width,
+              height: f.height,
+              content: f.content,
+              image_fit: f.image_fit,
+              image_mask: f.image_mask,
+              page_index: f.page_index ?? 0,
             }))
           );
 
@@ -287,12 +740,74 @@ export default function TemplateEditor() {
   });
 
   const selectedField = fields.find(f => f.id === selectedFieldId);
+  const selectedFields = fields.filter((f) => selectedFieldIds.includes(f.id));
+  // Of a multiple selection, the fields with fonts, and those with a color (QR codes have one too)
+  const selectedText = selectedFields.filter((f) => f.field_type !== 'qr' && f.field_type !== 'image');
+  const selectedColored = selectedFields.filter((f) => f.field_type !== 'image');
+  const currentFields = pageFields(fields, currentPage);
+  const canvasElements = currentFields.map((field) => {
+    const text = getFieldValue(field, {}, {}, {
+      showPlaceholders: true,
+      verification: sampleVerification(window.location.origin),
+    });
+    return { field, element: layoutField(field, text, measureText) };
+  });
+  const boxes = new Map(canvasElements.map(({ field, element }) => [field.id, elementBox(element)]));
 
   // Calculate scale to fit canvas
   const maxWidth = 800;
   const maxHeight = 500;
   const scale = Math.min(maxWidth / imageDimensions.width, maxHeight / imageDimensions.height, 1);
 
+  // Snap a dragged field, or the box around the group it drags, to the page, the other fields and the grid.
+  // Every field in a group gets its own drag events and makes the same correction.
+  const handleDragMove = (fieldId: string, e: Konva.KonvaEventObject<DragEvent>) => {
+    const field = fields.find((f) => f.id === fieldId);
+    const group = dragGroup(fieldId);
+    const groupBoxes = group.flatMap((id) => boxes.get(id) ?? []);
+    if (!snapping || !field || groupBoxes.length === 0) return;
+    const node = e.target;
+    // The node sits at the field's anchor point, and its box moves with it
+    const box = boundingBox(groupBoxes);
+    const moved = { ...box, x: box.x + node.x() - field.x, y: box.y + node.y() - field.y };
+    const snapped = snapBox(moved, {
+      page: imageDimensions,
+      others: [...boxes].filter(([id]) => !group.includes(id)).map(([, other]) => other),
+      threshold: SNAP_THRESHOLD / scale,
+      grid: showGrid ? GRID_SIZE : undefined,
+    });
+    node.position({ x: node.x() + snapped.x - moved.x, y: node.y() + snapped.y - moved.y });
+    setGuides(snapped.guides);
+  };
+
+  // One field aligns with the page, several with each other
+  const alignSelection = (alignment: Alignment) => {
+    const ids = selectedFieldIds.filter((id) => boxes.has(id));
+    const bounds = ids.length === 1 ? { x: 0, y: 0, ...imageDimensions } : undefined;
+    const offsets = alignOffsets(ids.map((id) => boxes.get(id)!), alignment, bounds);
+    moveFields(new Map(ids.map((id, i) => [id, offsets[i]])));
+  };
+
+  // Start a marquee on empty canvas; Shift adds what it covers to the selection
+  const handleStageMouseDown = (e: Konva.KonvaEventObject<MouseEvent>) => {
+    const stage = e.target.getStage();
+    if (e.target !== stage) return;
+    const pointer = stage.getRelativePointerPosition();
+    if (!pointer) return;
+    startMarquee(pointer, e.evt.shiftKey);
+  };
+
+  const handleStageMouseMove = (e: Konva.KonvaEventObject<MouseEvent>) => {
+    const pointer = marqueeArea && e.target.getStage()?.getRelativePointerPosition();
+    if (pointer) extendMarquee(pointer);
+  };
+
+  const distributeSelection = (direction: 'horizontal' | 'vertical') => {
+    const ids = selectedFieldIds.filter((id) => boxes.has(id));
+    const offsets = distributeOffsets(ids.map((id) => boxes.get(id)!), direction);
+    moveFields(new Map(ids.map((id, i) => [id, offsets[i]])));
+  };
+
   if (authLoading || templateLoading) {
     return (
       <DashboardLayout>
@@ -345,6 +860,14 @@ export default function TemplateEditor() {
                     placeholder="Brief description"
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label>Issuing Organization (optional)</Label>
+                  <Input
+                    value={issuerName}
+                    onChange={(e) => setIssuerName(e.target.value)}
+                    placeholder="Shown when someone verifies a certificate"
+                  />
+                </div>
               </CardContent>
             </Card>
 
@@ -383,22 +906,74 @@ export default function TemplateEditor() {
                   <Plus className="w-4 h-4 mr-2" />
                   Custom Field
                 </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={addTextBlock}
+                  disabled={!imageUrl}
+                  className="w-full"
+                >
+                  <TextQuote className="w-4 h-4 mr-2" />
+                  Text Block
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={addQrField}
+                  disabled={!imageUrl}
+                  className="w-full"
+                >
+                  <QrCode className="w-4 h-4 mr-2" />
+                  QR Code
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={addImageField}
+                  disabled={!imageUrl}
+                  className="w-full"
+                >
+                  <ImageIcon className="w-4 h-4 mr-2" />
+                  Image
+                </Button>
+                <div className="grid grid-cols-2 gap-2">
+                  {VERIFICATION_PRESETS.map((preset) => (
+                    <Button
+                      key={preset.key}
+                      variant="outline"
+                      size="sm"
+                      onClick={() => addField(preset, preset.key)}
+                      disabled={!imageUrl}
+                    >
+                      <ShieldCheck className="w-3 h-3 mr-1" />
+                      {preset.label}
+                    </Button>
+                  ))}
+                </div>
 
                 {/* Field list */}
                 <div className="space-y-2 mt-4">
-                  {fields.map((field) => (
+                  {currentFields.map((field) => (
                     <div
                       key={field.id}
                       className={`flex items-center gap-2 p-2 rounded-lg border cursor-pointer transition-colors ${
-                        selectedFieldId === field.id
+                        selectedFieldIds.includes(field.id)
                           ? 'border-primary bg-accent'
                           : 'border-border hover:bg-muted'
                       }`}
-                      onClick={() => setSelectedFieldId(field.id)}
+                      onClick={(e) => selectField(field.id, e.shiftKey)}
                     >
                       <GripVertical className="w-4 h-4 text-muted-foreground" />
                       <span className="flex-1 text-sm truncate">{field.label}</span>
-                      <code className="text-xs bg-muted px-1 rounded">{`{{${field.field_key}}}`}</code>
+                      {field.field_type === 'qr' ? (
+                        <QrCode className="w-3 h-3 text-muted-foreground" />
+                      ) : field.field_type === 'image' ? (
+                        <ImageIcon className="w-3 h-3 text-muted-foreground" />
+                      ) : isTextTemplate(field) ? (
+                        <TextQuote className="w-3 h-3 text-muted-foreground" />
+                      ) : (
+                        <code className="text-xs bg-muted px-1 rounded">{`{{${field.field_key}}}`}</code>
+                      )}
                       <Button
                         variant="ghost"
                         size="icon"
@@ -416,6 +991,85 @@ export default function TemplateEditor() {
               </CardContent>
             </Card>
 
+            {/* Shared properties of a multiple selection */}
+            {selectedFields.length > 1 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <Palette className="w-4 h-4" />
+                    {selectedFields.length} Fields Selected
+                  </CardTitle>
+                  <CardDescription>
+                    Changes apply to every selected field they suit. Settings that differ between them show as mixed.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {selectedText.length > 0 && (
+                    <>
+                      <div className="space-y-2">
+                        <Label>Font Family</Label>
+                        <Select
+                          value={sharedValue(selectedText.map((f) => f.font_family)) ?? ''}
+                          onValueChange={(v) => updateFields(selectedText.map((f) => f.id), { font_family: v })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Mixed" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <FontSelectItems
+                              customFamilies={customFamilies}
+                              current={sharedValue(selectedText.map((f) => f.font_family))}
+                            />
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label>
+                          Font Size:{' '}
+                          {sharedValue(selectedText.map((f) => f.font_size)) === undefined
+                            ? 'Mixed, changes by the same amount'
+                            : `${selectedText[0].font_size}px`}
+                        </Label>
+                        {/* The slider follows the first field; the others move with it rather than taking its size */}
+                        <Slider
+                          value={[selectedText[0].font_size]}
+                          onValueChange={([v]) => {
+                            const ids = selectedText.map((f) => f.id);
+                            changeFields(
+                              (current) => shiftFontSizes(current, ids, v, 12, 120),
+                              `${ids.join(',')}:font_size`
+                            );
+                          }}
+                          min={12}
+                          max={120}
+                          step={1}
+                        />
+                      </div>
+                    </>
+                  )}
+                  {selectedColored.length > 0 && (
+                    <div className="space-y-2">
+                      <Label>Color</Label>
+                      <div className="flex gap-2">
+                        <Input
+                          type="color"
+                          value={sharedValue(selectedColored.map((f) => f.font_color)) ?? '#000000'}
+                          onChange={(e) => updateFields(selectedColored.map((f) => f.id), { font_color: e.target.value })}
+                          className="w-12 h-10 p-1"
+                        />
+                        <Input
+                          value={sharedValue(selectedColored.map((f) => f.font_color)) ?? ''}
+                          placeholder="Mixed"
+                          onChange={(e) => updateFields(selectedColored.map((f) => f.id), { font_color: e.target.value })}
+                          className="flex-1"
+                        />
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Field properties */}
             {selectedField && (
               <Card>
@@ -426,13 +1080,121 @@ export default function TemplateEditor() {
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
-                  <div className="space-y-2">
-                    <Label>Field Key (for CSV)</Label>
-                    <Input
-                      value={selectedField.field_key}
-                      onChange={(e) => updateField(selectedField.id, { field_key: e.target.value })}
-                    />
-                  </div>
+                  {selectedField.field_type === 'qr' ? (
+                    <div className="space-y-2">
+                      <Label>QR Content</Label>
+                      <Select
+                        value={qrContentMode(selectedField.content ?? '')}
+                        onValueChange={(mode) =>
+                          updateField(selectedField.id, {
+                            content: qrContentForMode(mode as QrContentMode, selectedField.content ?? ''),
+                          })
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="verification">Verification link</SelectItem>
+                          <SelectItem value="column">CSV column</SelectItem>
+                          <SelectItem value="custom">Custom text</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      {qrContentMode(selectedField.content ?? '') === 'column' && (
+                        <Input
+                          placeholder="Field key, e.g. profile_url"
+                          value={(selectedField.content ?? '').trim().slice(2, -2).trim()}
+                          onChange={(e) => updateField(selectedField.id, { content: `{{${e.target.value.trim()}}}` })}
+                        />
+                      )}
+                      {qrContentMode(selectedField.content ?? '') === 'custom' && (
+                        <>
+                          <Input
+                            value={selectedField.content ?? ''}
+                            onChange={(e) => updateField(selectedField.id, { content: e.target.value })}
+                          />
+                          <p className="text-xs text-muted-foreground">
+                            Combine text with {'{{field_key}}'}, {'{{verification_code}}'} or {'{{verification_url}}'}
+                          </p>
+                        </>
+                      )}
+                    </div>
+                  ) : selectedField.field_type === 'image' ? (
+                    <div className="space-y-2">
+                      <Label>Image Source</Label>
+                      <Select
+                        value={imageFromColumn(selectedField.content ?? '') ? 'column' : 'asset'}
+                        onValueChange={(source) =>
+                          updateField(selectedField.id, { content: source === 'column' ? '{{photo}}' : '' })
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="asset">Uploaded image</SelectItem>
+                          <SelectItem value="column">CSV column</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      {imageFromColumn(selectedField.content ?? '') ? (
+                        <>
+                          <Input
+                            placeholder="Field key, e.g. photo"
+                            value={(selectedField.content ?? '').trim().slice(2, -2).trim()}
+                            onChange={(e) => updateField(selectedField.id, { content: `{{${e.target.value.trim()}}}` })}
+                          />
+                          <p className="text-xs text-muted-foreground">
+                            Each row gives an image URL, or the file name of an image uploaded when generating
+                          </p>
+                        </>
+                      ) : (
+                        <Input
+                          type="file"
+                          accept="image/*"
+                          onChange={(e) => handleAssetUpload(selectedField.id, e)}
+                        />
+                      )}
+                    </div>
+                  ) : isVerificationField(selectedField) ? (
+                    <p className="text-sm text-muted-foreground">
+                      Filled with each certificate's verification {selectedField.field_type === 'verification_url' ? 'link' : 'code'}.
+                    </p>
+                  ) : (
+                    <>
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="field-template">Mix text and placeholders</Label>
+                        <Switch
+                          id="field-template"
+                          checked={isTextTemplate(selectedField)}
+                          onCheckedChange={(checked) =>
+                            updateField(selectedField.id, { content: checked ? `{{${selectedField.field_key}}}` : null })
+                          }
+                        />
+                      </div>
+                      {isTextTemplate(selectedField) ? (
+                        <div className="space-y-2">
+                          <Label>Text</Label>
+                          <Textarea
+                            rows={3}
+                            value={selectedField.content ?? ''}
+                            onChange={(e) => updateField(selectedField.id, { content: e.target.value })}
+                          />
+                          <p className="text-xs text-muted-foreground">
+                            Each {'{{column}}'} is replaced with that CSV column's value; the same placeholder can
+                            appear more than once. Format values with {FORMATTER_EXAMPLES.join(', ')}.
+                          </p>
+                        </div>
+                      ) : (
+                        <div className="space-y-2">
+                          <Label>Field Key (for CSV)</Label>
+                          <Input
+                            value={selectedField.field_key}
+                            onChange={(e) => updateField(selectedField.id, { field_key: e.target.value })}
+                          />
+                        </div>
+                      )}
+                    </>
+                  )}
                   <div className="space-y-2">
                     <Label>Display Label</Label>
                     <Input
@@ -440,64 +1202,416 @@ export default function TemplateEditor() {
                       onChange={(e) => updateField(selectedField.id, { label: e.target.value })}
                     />
                   </div>
+                  {!isVerificationField(selectedField) &&
+                    (selectedField.field_type !== 'image' || imageFromColumn(selectedField.content ?? '')) && (
+                      <div className="space-y-2">
+                        <Label>Default Value</Label>
+                        <Input
+                          placeholder="Leave blank"
+                          value={selectedField.default_value ?? ''}
+                          onChange={(e) => updateField(selectedField.id, { default_value: e.target.value })}
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          {selectedField.field_type === 'image'
+                            ? 'An image file name or URL to use when the column is empty'
+                            : 'Used when the CSV cell is empty'}
+                        </p>
+                      </div>
+                    )}
                   <div className="space-y-2">
-                    <Label>Font Family</Label>
+                    <Label>Show</Label>
                     <Select
-                      value={selectedField.font_family}
-                      onValueChange={(v) => updateField(selectedField.id, { font_family: v })}
+                      value={toShowWhen(selectedField.show_when)}
+                      onValueChange={(v) => updateField(selectedField.id, { show_when: v })}
                     >
                       <SelectTrigger>
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        {FONTS.map((font) => (
-                          <SelectItem key={font} value={font}>{font}</SelectItem>
-                        ))}
+                        <SelectItem value="always">On every certificate</SelectItem>
+                        <SelectItem value="not_empty">When a column has a value</SelectItem>
+                        <SelectItem value="empty">When a column is empty</SelectItem>
+                        <SelectItem value="equals">When a column equals…</SelectItem>
+                        <SelectItem value="not_equals">When a column doesn't equal…</SelectItem>
                       </SelectContent>
                     </Select>
+                    {toShowWhen(selectedField.show_when) !== 'always' && (
+                      <div className="grid grid-cols-2 gap-2">
+                        <Input
+                          placeholder="Field key, e.g. grade"
+                          value={selectedField.show_when_key ?? ''}
+                          onChange={(e) => updateField(selectedField.id, { show_when_key: e.target.value })}
+                          className={toShowWhen(selectedField.show_when).endsWith('equals') ? '' : 'col-span-2'}
+                        />
+                        {toShowWhen(selectedField.show_when).endsWith('equals') && (
+                          <Input
+                            placeholder="Value, e.g. A"
+                            value={selectedField.show_when_value ?? ''}
+                            onChange={(e) => updateField(selectedField.id, { show_when_value: e.target.value })}
+                          />
+                        )}
+                      </div>
+                    )}
                   </div>
-                  <div className="space-y-2">
-                    <Label>Font Size: {selectedField.font_size}px</Label>
-                    <Slider
-                      value={[selectedField.font_size]}
-                      onValueChange={([v]) => updateField(selectedField.id, { font_size: v })}
-                      min={12}
-                      max={120}
-                      step={1}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label>Color</Label>
-                    <div className="flex gap-2">
-                      <Input
-                        type="color"
-                        value={selectedField.font_color}
-                        onChange={(e) => updateField(selectedField.id, { font_color: e.target.value })}
-                        className="w-12 h-10 p-1"
-                      />
-                      <Input
-                        value={selectedField.font_color}
-                        onChange={(e) => updateField(selectedField.id, { font_color: e.target.value })}
-                        className="flex-1"
+                  {selectedField.field_type === 'qr' ? (
+                    <div className="space-y-2">
+                      <Label>Size: {Math.round(selectedField.width ?? DEFAULT_QR_SIZE)}px</Label>
+                      <Slider
+                        value={[selectedField.width ?? DEFAULT_QR_SIZE]}
+                        onValueChange={([v]) => updateField(selectedField.id, { width: v, height: v })}
+                        min={40}
+                        max={600}
+                        step={1}
                       />
                     </div>
-                  </div>
-                  <div className="space-y-2">
-                    <Label>Text Align</Label>
-                    <Select
-                      value={selectedField.text_align}
-                      onValueChange={(v) => updateField(selectedField.id, { text_align: v })}
-                    >
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="left">Left</SelectItem>
-                        <SelectItem value="center">Center</SelectItem>
-                        <SelectItem value="right">Right</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
+                  ) : selectedField.field_type === 'image' ? (
+                    <>
+                      <div className="grid grid-cols-2 gap-2">
+                        <div className="space-y-2">
+                          <Label>Width</Label>
+                          <Input
+                            type="number"
+                            value={Math.round(selectedField.width ?? DEFAULT_IMAGE_SIZE)}
+                            onChange={(e) => updateField(selectedField.id, { width: Number(e.target.value) })}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label>Height</Label>
+                          <Input
+                            type="number"
+                            value={Math.round(selectedField.height ?? DEFAULT_IMAGE_SIZE)}
+                            onChange={(e) => updateField(selectedField.id, { height: Number(e.target.value) })}
+                          />
+                        </div>
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Fit</Label>
+                        <Select
+                          value={selectedField.image_fit || 'contain'}
+                          onValueChange={(v) => updateField(selectedField.id, { image_fit: v })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="contain">Contain (show the whole image)</SelectItem>
+                            <SelectItem value="cover">Cover (fill the box and crop)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="image-circle">Circular mask</Label>
+                        <Switch
+                          id="image-circle"
+                          checked={selectedField.image_mask === 'circle'}
+                          onCheckedChange={(checked) =>
+                            updateField(selectedField.id, { image_mask: checked ? 'circle' : null })
+                          }
+                        />
+                      </div>
+                    </>
+                  ) : (
+                    <>
+                      <div className="space-y-2">
+                        <Label>Font Family</Label>
+                        <Select
+                          value={selectedField.font_family}
+                          onValueChange={(v) => updateField(selectedField.id, { font_family: v })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <FontSelectItems customFamilies={customFamilies} current={selectedField.font_family} />
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Font Size: {selectedField.font_size}px</Label>
+                        <Slider
+                          value={[selectedField.font_size]}
+                          onValueChange={([v]) => updateField(selectedField.id, { font_size: v })}
+                          min={12}
+                          max={120}
+                          step={1}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Weight</Label>
+                        <Select
+                          value={String(selectedField.font_weight ?? 400)}
+                          onValueChange={(v) => updateField(selectedField.id, { font_weight: Number(v) })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {availableWeights(selectedField.font_family, customFonts, selectedField.font_weight ?? 400).map(
+                              (weight) => (
+                                <SelectItem key={weight} value={String(weight)}>
+                                  {FONT_WEIGHTS[weight] ?? weight}
+                                </SelectItem>
+                              )
+                            )}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="field-italic">Italic</Label>
+                        <Switch
+                          id="field-italic"
+                          checked={!!selectedField.font_italic}
+                          onCheckedChange={(checked) => updateField(selectedField.id, { font_italic: checked })}
+                        />
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="field-underline">Underline</Label>
+                        <Switch
+                          id="field-underline"
+                          checked={!!selectedField.underline}
+                          onCheckedChange={(checked) => updateField(selectedField.id, { underline: checked })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Case</Label>
+                        <Select
+                          value={toTextTransform(selectedField.text_transform)}
+                          onValueChange={(v) => updateField(selectedField.id, { text_transform: v })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">As in the data</SelectItem>
+                            <SelectItem value="uppercase">UPPERCASE</SelectItem>
+                            <SelectItem value="lowercase">lowercase</SelectItem>
+                            <SelectItem value="title">Title Case</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Letter Spacing: {selectedField.letter_spacing ?? 0}px</Label>
+                        <Slider
+                          value={[selectedField.letter_spacing ?? 0]}
+                          onValueChange={([v]) => updateField(selectedField.id, { letter_spacing: v })}
+                          min={-5}
+                          max={40}
+                          step={0.5}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Line Height: {selectedField.line_height ?? LINE_HEIGHT}×</Label>
+                        <Slider
+                          value={[selectedField.line_height ?? LINE_HEIGHT]}
+                          onValueChange={([v]) => updateField(selectedField.id, { line_height: v })}
+                          min={0.8}
+                          max={3}
+                          step={0.05}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                          <Label htmlFor="field-outline">Outline</Label>
+                          <Switch
+                            id="field-outline"
+                            checked={!!selectedField.stroke_color}
+                            onCheckedChange={(checked) =>
+                              updateField(
+                                selectedField.id,
+                                checked ? { stroke_color: '#ffffff', stroke_width: 2 } : { stroke_color: null, stroke_width: 0 }
+                              )
+                            }
+                          />
+                        </div>
+                        {selectedField.stroke_color && (
+                          <div className="flex items-center gap-2">
+                            <Input
+                              type="color"
+                              value={selectedField.stroke_color}
+                              onChange={(e) => updateField(selectedField.id, { stroke_color: e.target.value })}
+                              className="w-12 h-10 p-1"
+                            />
+                            <Slider
+                              className="flex-1"
+                              value={[selectedField.stroke_width ?? 0]}
+                              onValueChange={([v]) => updateField(selectedField.id, { stroke_width: v })}
+                              min={0.5}
+                              max={20}
+                              step={0.5}
+                            />
+                            <span className="w-10 text-right text-sm text-muted-foreground">
+                              {selectedField.stroke_width ?? 0}px
+                            </span>
+                          </div>
+                        )}
+                      </div>
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                          <Label htmlFor="field-shadow">Drop Shadow</Label>
+                          <Switch
+                            id="field-shadow"
+                            checked={!!selectedField.shadow_color}
+                            onCheckedChange={(checked) =>
+                              updateField(
+                                selectedField.id,
+                                checked
+                                  ? { shadow_color: '#000000', shadow_blur: 4, shadow_offset_x: 2, shadow_offset_y: 2 }
+                                  : { shadow_color: null }
+                              )
+                            }
+                          />
+                        </div>
+                        {selectedField.shadow_color && (
+                          <>
+                            <Input
+                              type="color"
+                              value={selectedField.shadow_color}
+                              onChange={(e) => updateField(selectedField.id, { shadow_color: e.target.value })}
+                              className="w-12 h-10 p-1"
+                            />
+                            <Label className="text-xs">Blur: {selectedField.shadow_blur ?? 0}px</Label>
+                            <Slider
+                              value={[selectedField.shadow_blur ?? 0]}
+                              onValueChange={([v]) => updateField(selectedField.id, { shadow_blur: v })}
+                              min={0}
+                              max={40}
+                              step={1}
+                            />
+                            <div className="grid grid-cols-2 gap-2">
+                              <div className="space-y-1">
+                                <Label className="text-xs">Offset X</Label>
+                                <Input
+                                  type="number"
+                                  value={selectedField.shadow_offset_x ?? 0}
+                                  onChange={(e) => updateField(selectedField.id, { shadow_offset_x: Number(e.target.value) })}
+                                />
+                              </div>
+                              <div className="space-y-1">
+                                <Label className="text-xs">Offset Y</Label>
+                                <Input
+                                  type="number"
+                                  value={selectedField.shadow_offset_y ?? 0}
+                                  onChange={(e) => updateField(selectedField.id, { shadow_offset_y: Number(e.target.value) })}
+                                />
+                              </div>
+                            </div>
+                            <p className="text-xs text-muted-foreground">PDFs show the shadow without blur.</p>
+                          </>
+                        )}
+                      </div>
+                    </>
+                  )}
+                  {selectedField.field_type !== 'image' && (
+                    <div className="space-y-2">
+                      <Label>Color</Label>
+                      <div className="flex gap-2">
+                        <Input
+                          type="color"
+                          value={selectedField.font_color}
+                          onChange={(e) => updateField(selectedField.id, { font_color: e.target.value })}
+                          className="w-12 h-10 p-1"
+                        />
+                        <Input
+                          value={selectedField.font_color}
+                          onChange={(e) => updateField(selectedField.id, { font_color: e.target.value })}
+                          className="flex-1"
+                        />
+                      </div>
+                    </div>
+                  )}
+                  {selectedField.field_type !== 'qr' && selectedField.field_type !== 'image' && (
+                    <div className="space-y-2">
+                      <Label>Text Align</Label>
+                      <Select
+                        value={selectedField.text_align}
+                        onValueChange={(v) => updateField(selectedField.id, { text_align: v })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="left">Left</SelectItem>
+                          <SelectItem value="center">Center</SelectItem>
+                          <SelectItem value="right">Right</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  {selectedField.field_type !== 'qr' && selectedField.field_type !== 'image' && (
+                    <>
+                      <div className="grid grid-cols-2 gap-2">
+                        <div className="space-y-2">
+                          <Label>Max Width</Label>
+                          <Input
+                            type="number"
+                            min={1}
+                            placeholder="None"
+                            value={selectedField.max_width ?? ''}
+                            onChange={(e) => updateField(selectedField.id, { max_width: optionalNumber(e.target.value) })}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label>Max Height</Label>
+                          <Input
+                            type="number"
+                            min={1}
+                            placeholder="None"
+                            value={selectedField.max_height ?? ''}
+                            onChange={(e) => updateField(selectedField.id, { max_height: optionalNumber(e.target.value) })}
+                          />
+                        </div>
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Long Text</Label>
+                        <Select
+                          value={toTextFit(selectedField.text_fit)}
+                          onValueChange={(v) => updateField(selectedField.id, { text_fit: v })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">Let it overflow</SelectItem>
+                            <SelectItem value="shrink">Shrink to fit</SelectItem>
+                            <SelectItem value="wrap">Wrap onto more lines</SelectItem>
+                            <SelectItem value="truncate">Cut off with …</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        {toTextFit(selectedField.text_fit) !== 'none' &&
+                          !selectedField.max_width &&
+                          (selectedField.text_fit !== 'shrink' || !selectedField.max_height) && (
+                            <p className="text-xs text-muted-foreground">
+                              Set a max width{selectedField.text_fit === 'shrink' && ' or height'} for this to take effect.
+                            </p>
+                          )}
+                      </div>
+                      {selectedField.text_fit === 'shrink' && (
+                        <div className="space-y-2">
+                          <Label>Min Font Size</Label>
+                          <Input
+                            type="number"
+                            min={1}
+                            placeholder={String(DEFAULT_MIN_FONT_SIZE)}
+                            value={selectedField.min_font_size ?? ''}
+                            onChange={(e) => updateField(selectedField.id, { min_font_size: optionalNumber(e.target.value) })}
+                          />
+                        </div>
+                      )}
+                      {selectedField.text_fit === 'wrap' && (
+                        <div className="space-y-2">
+                          <Label>Max Lines</Label>
+                          <Input
+                            type="number"
+                            min={1}
+                            step={1}
+                            placeholder="No limit"
+                            value={selectedField.max_lines ?? ''}
+                            onChange={(e) => updateField(selectedField.id, { max_lines: optionalNumber(e.target.value) })}
+                          />
+                        </div>
+                      )}
+                    </>
+                  )}
                   <div className="grid grid-cols-2 gap-2">
                     <div className="space-y-2">
                       <Label>X Position</Label>
@@ -542,7 +1656,7 @@ export default function TemplateEditor() {
                       ref={fileInputRef}
                       type="file"
                       accept="image/*"
-                      onChange={handleImageUpload}
+                      onChange={(e) => handleImageUpload(e)}
                       className="hidden"
                     />
                   </div>
@@ -551,7 +1665,21 @@ export default function TemplateEditor() {
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-2 text-sm text-muted-foreground">
                         <Move className="w-4 h-4" />
-                        Drag fields to position them on the certificate
+                        Drag fields to position them, or nudge them with the arrow keys; Shift-click or drag a box to select several
+                      </div>
+                      <div className="flex items-center gap-1 ml-auto mr-2">
+                        <Button variant="ghost" size="icon" onClick={undo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+                          <Undo2 className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={redo}
+                          disabled={!canRedo}
+                          title="Redo (Ctrl+Shift+Z)"
+                        >
+                          <Redo2 className="w-4 h-4" />
+                        </Button>
                       </div>
                       <Button
                         variant="outline"
@@ -565,11 +1693,115 @@ export default function TemplateEditor() {
                         ref={fileInputRef}
                         type="file"
                         accept="image/*"
-                        onChange={handleImageUpload}
+                        onChange={(e) => handleImageUpload(e)}
                         className="hidden"
                       />
                     </div>
                     
+                    <div className="flex items-center gap-2">
+                      <Tabs value={String(currentPage)} onValueChange={(v) => switchPage(Number(v))}>
+                        <TabsList>
+                          {pages.map((p) => (
+                            <TabsTrigger key={p.page_index} value={String(p.page_index)}>
+                              Page {p.page_index + 1}
+                            </TabsTrigger>
+                          ))}
+                        </TabsList>
+                      </Tabs>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => addPageInputRef.current?.click()}
+                        disabled={uploading}
+                      >
+                        <Plus className="w-4 h-4 mr-1" />
+                        Add Page
+                      </Button>
+                      <input
+                        ref={addPageInputRef}
+                        type="file"
+                        accept="image/*"
+                        onChange={(e) => handleImageUpload(e, 'add')}
+                        className="hidden"
+                      />
+                      {pages.length > 1 && (
+                        <Button variant="ghost" size="sm" className="ml-auto" onClick={() => removePage(currentPage)}>
+                          <Trash2 className="w-4 h-4 mr-1" />
+                          Remove Page
+                        </Button>
+                      )}
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-1">
+                      {ALIGNMENTS.map(({ alignment, label, icon: Icon }) => (
+                        <Button
+                          key={alignment}
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => alignSelection(alignment)}
+                          disabled={selectedFieldIds.length === 0}
+                          title={selectedFieldIds.length === 1 ? `${label} to the page` : label}
+                        >
+                          <Icon className="w-4 h-4" />
+                        </Button>
+                      ))}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => distributeSelection('horizontal')}
+                        disabled={selectedFieldIds.length < 3}
+                        title="Distribute horizontally"
+                      >
+                        <AlignHorizontalDistributeCenter className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => distributeSelection('vertical')}
+                        disabled={selectedFieldIds.length < 3}
+                        title="Distribute vertically"
+                      >
+                        <AlignVerticalDistributeCenter className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={copySelection}
+                        disabled={selectedFieldIds.length === 0}
+                        title="Copy (Ctrl+C)"
+                      >
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={pasteClipboard}
+                        disabled={!canPaste}
+                        title="Paste (Ctrl+V)"
+                      >
+                        <ClipboardPaste className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={duplicateSelection}
+                        disabled={selectedFieldIds.length === 0}
+                        title="Duplicate (Ctrl+D)"
+                      >
+                        <CopyPlus className="w-4 h-4" />
+                      </Button>
+                      <div className="flex items-center gap-4 ml-auto">
+                        <div className="flex items-center gap-2">
+                          <Switch id="snapping" checked={snapping} onCheckedChange={setSnapping} />
+                          <Label htmlFor="snapping" className="text-sm font-normal">Snap</Label>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Switch id="show-grid" checked={showGrid} onCheckedChange={setShowGrid} />
+                          <Label htmlFor="show-grid" className="text-sm font-normal">Grid</Label>
+                        </div>
+                      </div>
+                    </div>
+
                     <div className="canvas-container flex items-center justify-center" style={{ minHeight: maxHeight + 40 }}>
                       <Stage
                         ref={stageRef}
@@ -577,45 +1809,122 @@ export default function TemplateEditor() {
                         height={imageDimensions.height * scale}
                         scaleX={scale}
                         scaleY={scale}
-                        onMouseDown={(e) => {
-                          if (e.target === e.target.getStage()) {
-                            setSelectedFieldId(null);
-                          }
-                        }}
+                        onMouseDown={handleStageMouseDown}
+                        onMouseMove={handleStageMouseMove}
+                        onMouseUp={() => finishMarquee(boxes)}
+                        onMouseLeave={() => finishMarquee(boxes)}
                       >
                         <Layer>
+                          {/* Clicks go through the background to the stage, to clear the selection or start a marquee */}
                           {image && (
                             <KonvaImage
                               image={image}
                               width={imageDimensions.width}
                               height={imageDimensions.height}
+                              listening={false}
                             />
                           )}
-                          {fields.map((field) => (
-                            <Text
-                              key={field.id}
-                              x={field.x}
-                              y={field.y}
-                              text={`{{${field.field_key}}}`}
-                              fontSize={field.font_size}
-                              fontFamily={field.font_family}
-                              fill={field.font_color}
-                              align={field.text_align as 'left' | 'center' | 'right'}
-                              draggable
-                              onClick={() => setSelectedFieldId(field.id)}
-                              onTap={() => setSelectedFieldId(field.id)}
-                              onDragEnd={(e) => handleDragEnd(field.id, e)}
-                              offsetX={
-                                field.text_align === 'center'
-                                  ? field.font_size * field.field_key.length * 0.3
-                                  : field.text_align === 'right'
-                                  ? field.font_size * field.field_key.length * 0.6
-                                  : 0
+                          {showGrid && (
+                            <GridLines width={imageDimensions.width} height={imageDimensions.height} scale={scale} />
+                          )}
+                          {canvasElements.map(({ field, element }) => {
+                            const selected = selectedFieldIds.includes(field.id);
+                            const dragProps = {
+                              draggable: true,
+                              onClick: (e: Konva.KonvaEventObject<MouseEvent>) => selectField(field.id, e.evt.shiftKey),
+                              onTap: () => selectField(field.id),
+                              onDragStart: () => handleDragStart(field.id),
+                              onDragMove: (e: Konva.KonvaEventObject<DragEvent>) => handleDragMove(field.id, e),
+                              onDragEnd: (e: Konva.KonvaEventObject<DragEvent>) => handleDragEnd(field.id, e),
+                            };
+                            // The Transformer outlines a lone selected QR code or image, so they need no stroke of their own
+                            if (element.kind === 'image' || element.kind === 'qr') {
+                              const box = boxes.get(field.id)!;
+                              return (
+                                <Fragment key={field.id}>
+                                  {selected && selectedFieldIds.length > 1 && (
+                                    <Rect {...box} stroke="#6366f1" strokeWidth={1} dash={[6, 4]} listening={false} />
+                                  )}
+                                  {element.kind === 'image' ? (
+                                    <ImageShape
+                                      id={field.id}
+                                      element={element}
+                                      showPlaceholder
+                                      {...dragProps}
+                                      onTransformEnd={(e) => handleTransformEnd(field.id, e)}
+                                    />
+                                  ) : (
+                                    <QrShape
+                                      id={field.id}
+                                      element={element}
+                                      {...dragProps}
+                                      onTransformEnd={(e) => handleTransformEnd(field.id, e)}
+                                    />
+                                  )}
+                                </Fragment>
+                              );
+                            }
+                            return (
+                              <Fragment key={field.id}>
+                                {/* The selected text's box, which long text is fitted into; the text's own
+                                    stroke is its outline, so the selection can't use it */}
+                                {selected && (
+                                  <Rect
+                                    x={element.x}
+                                    y={element.y}
+                                    width={element.width}
+                                    height={Number(field.max_height) || element.height}
+                                    stroke="#6366f1"
+                                    strokeWidth={1}
+                                    dash={[6, 4]}
+                                    listening={false}
+                                  />
+                                )}
+                                <TextShape
+                                  id={field.id}
+                                  element={element}
+                                  x={field.x}
+                                  y={field.y}
+                                  offsetX={element.offsetX}
+                                  {...dragProps}
+                                />
+                              </Fragment>
+                            );
+                          })}
+                          {guides.map((guide) => (
+                            <Line
+                              key={`${guide.orientation}:${guide.position}`}
+                              points={
+                                guide.orientation === 'vertical'
+                                  ? [guide.position, 0, guide.position, imageDimensions.height]
+                                  : [0, guide.position, imageDimensions.width, guide.position]
                               }
-                              stroke={selectedFieldId === field.id ? '#6366f1' : undefined}
-                              strokeWidth={selectedFieldId === field.id ? 2 : 0}
+                              stroke="#ec4899"
+                              strokeWidth={1 / scale}
+                              listening={false}
                             />
                           ))}
+                          {marqueeArea && (
+                            <Rect
+                              {...marqueeArea}
+                              fill="rgba(99, 102, 241, 0.08)"
+                              stroke="#6366f1"
+                              strokeWidth={1 / scale}
+                              listening={false}
+                            />
+                          )}
+                          <Transformer
+                            ref={transformerRef}
+                            rotateEnabled={false}
+                            resizeEnabled={selectedFieldIds.length <= 1}
+                            keepRatio={selectedField?.field_type === 'qr'}
+                            enabledAnchors={
+                              selectedField?.field_type === 'qr'
+                                ? ['top-left', 'top-right', 'bottom-left', 'bottom-right']
+                                : undefined
+                            }
+                            boundBoxFunc={(oldBox, newBox) => (newBox.width < 24 ? oldBox : newBox)}
+                          />
                         </Layer>
                       </Stage>
                     </div>
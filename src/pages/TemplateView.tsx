@@ -0,0 +1,351 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import CertificateStage from '@/components/generate/CertificateStage';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowLeft, Copy, Pencil, Send } from 'lucide-react';
+import { format } from 'date-fns';
+import { DEFAULT_IMAGE_SIZE, DEFAULT_QR_SIZE, isTextTemplate, templatePages } from '@/lib/certificates/layout';
+import type { TemplateField } from '@/lib/certificates/types';
+
+// What a field shows in the Key column: its placeholder, or where a text template, QR code or image gets its value
+function fieldSource(field: TemplateField) {
+  if (field.field_type === 'qr' || isTextTemplate(field)) return field.content;
+  if (field.field_type === 'image') return field.content?.includes('{{') ? field.content : 'Uploaded image';
+  return `{{${field.field_key}}}`;
+}
+
+function fieldAppearance(field: TemplateField) {
+  if (field.field_type === 'qr') return `QR code, ${field.width ?? DEFAULT_QR_SIZE}px`;
+  if (field.field_type === 'image') {
+    const size = `${field.width ?? DEFAULT_IMAGE_SIZE}×${field.height ?? DEFAULT_IMAGE_SIZE}px`;
+    return `Image, ${size}, ${field.image_fit || 'contain'}${field.image_mask === 'circle' ? ', circle' : ''}`;
+  }
+  return `${field.font_family}, ${field.font_size}px`;
+}
+
+export default function TemplateView() {
+  const { id } = useParams();
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [containerWidth, setContainerWidth] = useState(800);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  useEffect(() => {
+    const updateWidth = () => {
+      if (containerRef.current) {
+        setContainerWidth(containerRef.current.offsetWidth - 48);
+      }
+    };
+    updateWidth();
+    window.addEventListener('resize', updateWidth);
+    return () => window.removeEventListener('resize', updateWidth);
+  }, []);
+
+  const { data: template, isLoading } = useQuery({
+    queryKey: ['template', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('certificate_templates')
+        .select('*, template_fields(*), template_pages(*), email_templates(*)')
+        .eq('id', id!)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !!id,
+  });
+
+  // A batch may issue some rows with a variant template, so usage counts the certificates rendered with
+  // this one, and lists the batches that have any
+  const { data: batches } = useQuery({
+    queryKey: ['template-batches', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('batch_jobs')
+        .select('id, name, status, created_at, total_count, generated_count, certificates!inner(id)')
+        .eq('certificates.template_id', id!)
+        .limit(1, { referencedTable: 'certificates' })
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!template,
+  });
+
+  const { data: usage } = useQuery({
+    queryKey: ['template-usage', id],
+    queryFn: async () => {
+      const [issued, sent] = await Promise.all([
+        supabase
+          .from('certificates')
+          .select('id', { count: 'exact', head: true })
+          .eq('template_id', id!)
+          .eq('render_status', 'rendered'),
+        supabase
+          .from('certificates')
+          .select('id', { count: 'exact', head: true })
+          .eq('template_id', id!)
+          .eq('email_status', 'sent'),
+      ]);
+      if (issued.error) throw issued.error;
+      if (sent.error) throw sent.error;
+      return { issued: issued.count ?? 0, sent: sent.count ?? 0 };
+    },
+    enabled: !!template,
+  });
+
+  const duplicateMutation = useMutation({
+    mutationFn: async () => {
+      if (!user || !template) throw new Error('Template not loaded');
+
+      const { data: copy, error } = await supabase
+        .from('certificate_templates')
+        .insert({
+          user_id: user.id,
+          name: `${template.name} (copy)`,
+          description: template.description,
+          issuer_name: template.issuer_name,
+          image_url: template.image_url,
+          image_width: template.image_width,
+          image_height: template.image_height,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      // Copy every column except the identity of the row, so new field settings carry over too
+      if (template.template_fields.length > 0) {
+        const { error: fieldsError } = await supabase.from('template_fields').insert(
+          template.template_fields.map(
+            ({ id: _id, template_id: _templateId, created_at: _createdAt, updated_at: _updatedAt, ...field }) => ({
+              ...field,
+              template_id: copy.id,
+            })
+          )
+        );
+        if (fieldsError) throw fieldsError;
+      }
+
+      if (template.template_pages.length > 0) {
+        const { error: pagesError } = await supabase.from('template_pages').insert(
+          template.template_pages.map(({ page_index, image_url, image_width, image_height }) => ({
+            template_id: copy.id,
+            page_index,
+            image_url,
+            image_width,
+            image_height,
+          }))
+        );
+        if (pagesError) throw pagesError;
+      }
+
+      if (template.email_templates) {
+        const { subject, body_html, body_text } = template.email_templates;
+        const { error: emailError } = await supabase
+          .from('email_templates')
+          .insert({ template_id: copy.id, subject, body_html, body_text });
+        if (emailError) throw emailError;
+      }
+
+      return copy.id;
+    },
+    onSuccess: (copyId) => {
+      queryClient.invalidateQueries({ queryKey: ['templates'] });
+      toast({ title: 'Duplicated', description: 'Template copied' });
+      navigate(`/templates/${copyId}/edit`);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (authLoading || isLoading) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-pulse text-muted-foreground">Loading template...</div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (!template) {
+    return (
+      <DashboardLayout>
+        <Card className="border-dashed">
+          <CardContent className="flex flex-col items-center justify-center py-16">
+            <h3 className="text-lg font-semibold mb-2">Template not found</h3>
+            <Button onClick={() => navigate('/templates')}>Back to Templates</Button>
+          </CardContent>
+        </Card>
+      </DashboardLayout>
+    );
+  }
+
+  const fields = template.template_fields as TemplateField[];
+  const pages = templatePages(template, template.template_pages);
+  const scale = Math.min(containerWidth / Math.max(...pages.map((page) => page.image_width)), 1);
+  const issued = usage?.issued ?? 0;
+  const sent = usage?.sent ?? 0;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+          <div>
+            <Button variant="ghost" size="sm" className="mb-2 -ml-2" onClick={() => navigate('/templates')}>
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Templates
+            </Button>
+            <h1 className="text-3xl font-bold tracking-tight">{template.name}</h1>
+            <p className="text-muted-foreground mt-1">{template.description || 'No description'}</p>
+            {template.issuer_name && (
+              <p className="text-sm text-muted-foreground mt-1">Issued by {template.issuer_name}</p>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => duplicateMutation.mutate()} disabled={duplicateMutation.isPending}>
+              <Copy className="w-4 h-4 mr-2" />
+              Duplicate
+            </Button>
+            <Link to={`/templates/${template.id}/edit`}>
+              <Button variant="outline">
+                <Pencil className="w-4 h-4 mr-2" />
+                Edit
+              </Button>
+            </Link>
+            <Link to={`/generate?template=${template.id}`}>
+              <Button>
+                <Send className="w-4 h-4 mr-2" />
+                Generate with this template
+              </Button>
+            </Link>
+          </div>
+        </div>
+
+        <div
+          ref={containerRef}
+          className="border rounded-lg bg-muted/30 p-6 flex flex-col items-center justify-center gap-6 overflow-hidden"
+        >
+          {pages.map((page) => (
+            <div key={page.page_index} className="shadow-2xl rounded-lg overflow-hidden">
+              <CertificateStage template={template} page={page} fields={fields} row={{}} mapping={{}} scale={scale} />
+            </div>
+          ))}
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Fields</CardTitle>
+              <CardDescription>
+                {fields.length} fields on this template{pages.length > 1 && ` across ${pages.length} pages`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Key</TableHead>
+                    {pages.length > 1 && <TableHead>Page</TableHead>}
+                    <TableHead>Font</TableHead>
+                    <TableHead>Color</TableHead>
+                    <TableHead>Align</TableHead>
+                    <TableHead>Position</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {fields.map((field) => (
+                    <TableRow key={field.id}>
+                      <TableCell>
+                        <Badge variant="secondary" className="font-mono">{fieldSource(field)}</Badge>
+                        <div className="text-xs text-muted-foreground mt-1">{field.label}</div>
+                      </TableCell>
+                      {pages.length > 1 && <TableCell>{(field.page_index ?? 0) + 1}</TableCell>}
+                      <TableCell>{fieldAppearance(field)}</TableCell>
+                      <TableCell>
+                        {field.field_type === 'image' ? (
+                          '—'
+                        ) : (
+                          <span className="flex items-center gap-2">
+                            <span className="w-4 h-4 rounded border" style={{ backgroundColor: field.font_color }} />
+                            <span className="font-mono text-xs">{field.font_color}</span>
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className="capitalize">
+                        {field.field_type === 'qr' || field.field_type === 'image' ? '—' : field.text_align}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {Math.round(field.x)}, {Math.round(field.y)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Usage</CardTitle>
+              <CardDescription>
+                {batches?.length ?? 0} batches · {issued} certificates issued · {sent} emailed
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {batches && batches.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Batch</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Issued</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {batches.map((batch) => (
+                      <TableRow
+                        key={batch.id}
+                        className="cursor-pointer"
+                        onClick={() => navigate(`/history/${batch.id}`)}
+                      >
+                        <TableCell className="font-medium">{batch.name}</TableCell>
+                        <TableCell>{format(new Date(batch.created_at), 'MMM d, yyyy')}</TableCell>
+                        <TableCell className="capitalize">{batch.status}</TableCell>
+                        <TableCell className="text-right">
+                          {batch.generated_count} / {batch.total_count}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="text-sm text-muted-foreground">This template hasn't been used yet.</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,97 @@
+import { Link, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Award, CheckCircle, XCircle } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface VerificationResult {
+  verification_code: string;
+  recipient_name: string;
+  issuer_name: string | null;
+  template_name: string | null;
+  issued_at: string;
+  version: number;
+  status: string;
+  revoked_at: string | null;
+  reissued: boolean;
+}
+
+// Public page: anyone holding a certificate's code can check it, no account needed
+export default function Verify() {
+  const { code } = useParams();
+
+  const { data: result, isLoading, isError } = useQuery({
+    queryKey: ['verify', code],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('verify_certificate', { _code: code! });
+      if (error) throw error;
+      return data as unknown as VerificationResult | null;
+    },
+    enabled: !!code,
+    retry: false,
+  });
+
+  const valid = result?.status === 'valid';
+
+  return (
+    <div className="min-h-screen bg-muted flex flex-col items-center justify-center p-4 gap-6">
+      <Link to="/" className="flex items-center gap-2">
+        <div className="w-9 h-9 rounded-lg bg-primary flex items-center justify-center">
+          <Award className="w-5 h-5 text-primary-foreground" />
+        </div>
+        <span className="font-semibold text-lg">CertifyPro</span>
+      </Link>
+
+      <Card className="w-full max-w-md">
+        {isLoading ? (
+          <CardContent className="py-16 text-center">
+            <div className="animate-pulse text-muted-foreground">Checking certificate...</div>
+          </CardContent>
+        ) : result && valid ? (
+          <>
+            <CardHeader className="text-center">
+              <CheckCircle className="w-12 h-12 mx-auto text-success mb-2" />
+              <CardTitle>Verified certificate</CardTitle>
+              <CardDescription>This certificate is genuine and valid.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+                <dt className="text-muted-foreground">Recipient</dt>
+                <dd className="font-medium">{result.recipient_name}</dd>
+                <dt className="text-muted-foreground">Issued by</dt>
+                <dd className="font-medium">{result.issuer_name || '—'}</dd>
+                <dt className="text-muted-foreground">Certificate</dt>
+                <dd className="font-medium">{result.template_name || '—'}</dd>
+                <dt className="text-muted-foreground">Issued on</dt>
+                <dd className="font-medium">{format(new Date(result.issued_at), 'MMMM d, yyyy')}</dd>
+                <dt className="text-muted-foreground">Code</dt>
+                <dd className="font-mono">{result.verification_code}</dd>
+                {result.version > 1 && (
+                  <>
+                    <dt className="text-muted-foreground">Version</dt>
+                    <dd className="font-medium">{result.version} (replaces an earlier certificate)</dd>
+                  </>
+                )}
+              </dl>
+            </CardContent>
+          </>
+        ) : (
+          <CardHeader className="text-center">
+            <XCircle className="w-12 h-12 mx-auto text-destructive mb-2" />
+            <CardTitle>{result ? 'Certificate revoked' : 'Certificate not found'}</CardTitle>
+            <CardDescription>
+              {isError
+                ? 'The certificate could not be checked right now. Please try again later.'
+                : result
+                  ? `This certificate was revoked by its issuer${
+                      result.revoked_at ? ` on ${format(new Date(result.revoked_at), 'MMMM d, yyyy')}` : ''
+                    } and is no longer valid.${result.reissued ? ' A corrected certificate has been issued to the recipient.' : ''}`
+                  : `No certificate matches the code "${code}". Check the code and try again.`}
+            </CardDescription>
+          </CardHeader>
+        )}
+      </Card>
+    </div>
+  );
+}
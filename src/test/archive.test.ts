@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { unzipSync, strFromU8 } from "fflate";
+import { archiveFileNames, archivedFiles, buildBatchArchive, MANIFEST_FILE_NAME } from "@/lib/certificates/archive";
+
+const rows = [
+  { "Full Name": "Jane Doe", course: "Intro/Advanced" },
+  { "Full Name": "Jane Doe", course: "Intro/Advanced" },
+  { "Full Name": "", course: "" },
+];
+const mapping = { name: "Full Name" };
+const entries = rows.map((row, i) => ({ row, rowNumber: i + 1 }));
+
+describe("archiveFileNames", () => {
+  it("fills the pattern, strips unsafe characters and de-duplicates", () => {
+    expect(archiveFileNames(entries, "{{name}}-{{course}}.pdf", mapping, "pdf")).toEqual([
+      "Jane Doe-Intro-Advanced.pdf",
+      "Jane Doe-Intro-Advanced (2).pdf",
+      "certificate-3.pdf",
+    ]);
+  });
+
+  it("falls back to the row number when the name comes out empty or only separators", () => {
+    expect(archiveFileNames(entries.slice(2), "{{name}}", mapping, "png")).toEqual(["certificate-3.png"]);
+    expect(archiveFileNames(entries.slice(2), "{{name}} - _ {{course}}", mapping, "png")).toEqual(["certificate-3.png"]);
+  });
+});
+
+describe("buildBatchArchive", () => {
+  it("includes every file and a manifest", () => {
+    const archive = buildBatchArchive(
+      [
+        {
+          rowNumber: 1,
+          row: rows[0],
+          certificateId: "c1",
+          version: 2,
+          recipientName: "Jane Doe",
+          recipientEmail: "jane@example.com",
+          file: new Uint8Array([1, 2, 3]),
+        },
+      ],
+      "{{name}}",
+      mapping,
+      "png"
+    );
+    const files = unzipSync(archive);
+    expect(Object.keys(files).sort()).toEqual(["Jane Doe.png", MANIFEST_FILE_NAME]);
+    expect(strFromU8(files[MANIFEST_FILE_NAME])).toContain("1,Jane Doe.png,c1,Jane Doe,jane@example.com,2");
+  });
+});
+
+describe("archivedFiles", () => {
+  it("reads the files back by certificate id", () => {
+    const entry = {
+      rowNumber: 1,
+      row: rows[0],
+      version: 1,
+      recipientName: "Jane Doe",
+      recipientEmail: null,
+    };
+    const archive = buildBatchArchive(
+      [
+        { ...entry, certificateId: "c1", file: new Uint8Array([1]) },
+        { ...entry, certificateId: "c2", file: new Uint8Array([2]) },
+      ],
+      "{{name}}",
+      mapping,
+      "pdf"
+    );
+    const files = archivedFiles(archive);
+    expect([...files.keys()]).toEqual(["c1", "c2"]);
+    expect(files.get("c2")).toEqual(new Uint8Array([2]));
+  });
+});
+
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_EMAIL_TEMPLATE, ensureCertificateLink, renderEmail } from "@/lib/certificates/email";
+
+const context = {
+  row: { "Full Name": "Jane <Doe>", course: "Design" },
+  mapping: { name: "Full Name" },
+  templateName: "Workshop",
+  certificateUrl: "https://example.com/c.pdf",
+};
+
+describe("renderEmail", () => {
+  it("fills field and built-in placeholders", () => {
+    const email = renderEmail(
+      {
+        subject: "{{certificate_name}}: {{course}}",
+        body_html: "",
+        body_text: "Hi {{name}}, see {{certificate_url}}",
+      },
+      context
+    );
+
+    expect(email.subject).toBe("Workshop: Design");
+    expect(email.text).toBe("Hi Jane <Doe>, see https://example.com/c.pdf");
+  });
+
+  it("formats values before escaping them", () => {
+    const email = renderEmail(
+      { subject: "{{name|upper}}", body_html: "<p>{{name|upper}}</p>", body_text: "" },
+      context
+    );
+
+    expect(email.subject).toBe("JANE <DOE>");
+    expect(email.html).toBe("<p>JANE &lt;DOE&gt;</p>");
+  });
+
+  it("escapes values in the HTML body only", () => {
+    const email = renderEmail(DEFAULT_EMAIL_TEMPLATE, context);
+
+    expect(email.html).toContain("Hi Jane &lt;Doe&gt;,");
+    expect(email.html).toContain('href="https://example.com/c.pdf"');
+  });
+});
+
+describe("ensureCertificateLink", () => {
+  it("adds the link to bodies without it and leaves the rest alone", () => {
+    const bare = renderEmail({ subject: "Hi", body_html: "<p>Hi</p>", body_text: "Hi" }, context);
+    const linked = ensureCertificateLink(bare, context.certificateUrl);
+    expect(linked.html).toContain('<a href="https://example.com/c.pdf">');
+    expect(linked.text).toBe("Hi\n\nDownload your certificate: https://example.com/c.pdf\n");
+
+    const full = renderEmail(DEFAULT_EMAIL_TEMPLATE, context);
+    expect(ensureCertificateLink(full, context.certificateUrl)).toEqual(full);
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect } from "vitest";
+import { pickFontFace, type CustomFont } from "@/lib/certificates/fonts";
+
+const face = (weight: number, style = "normal"): CustomFont => ({
+  family: "Brand Sans",
+  weight,
+  style,
+  file_url: `https://example.com/${weight}-${style}.woff2`,
+});
+const fonts = [face(300), face(700), face(400, "italic")];
+
+describe("pickFontFace", () => {
+  it("prefers the requested style, then the nearest weight", () => {
+    expect(pickFontFace(fonts, "Brand Sans")?.weight).toBe(300);
+    expect(pickFontFace(fonts, "Brand Sans", 600)?.weight).toBe(700);
+    expect(pickFontFace(fonts, "Brand Sans", 700, true)).toEqual(face(400, "italic"));
+  });
+
+  it("returns nothing for families that weren't uploaded", () => {
+    expect(pickFontFace(fonts, "Arial")).toBeUndefined();
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { applyFormatters, parsePlaceholder } from "@/lib/certificates/formatters";
+import { fillPlaceholders, placeholderKeys } from "@/lib/certificates/placeholders";
+
+const format = (value: string, expression: string) => applyFormatters(value, parsePlaceholder(expression).formatters);
+
+describe("parsePlaceholder", () => {
+  it("splits the key from its formatters, keeping quoted arguments whole", () => {
+    expect(parsePlaceholder('date | format:"h:mm a | MMM d" | upper')).toEqual({
+      key: "date",
+      formatters: [{ name: "format", arg: "h:mm a | MMM d" }, { name: "upper" }],
+    });
+  });
+});
+
+describe("formatters", () => {
+  it("formats ISO and other dates", () => {
+    expect(format("2026-03-04", 'date|format:"MMMM d, yyyy"')).toBe("March 4, 2026");
+    expect(format("March 4 2026", "date|format:'d/M/yy'")).toBe("4/3/26");
+  });
+
+  it("changes the case", () => {
+    expect(format("JANE O'NEIL-SMITH", "name|title")).toBe("Jane O'neil-Smith");
+    expect(format("Jane", "name|upper")).toBe("JANE");
+  });
+
+  it("rounds numbers and writes ordinals", () => {
+    expect(format("1234.567", "score|number:1")).toBe("1,234.6");
+    expect(format("92", "score|number")).toBe("92");
+    expect(["1", "2", "3", "11", "22", "103"].map((n) => format(n, "rank|ordinal"))).toEqual([
+      "1st",
+      "2nd",
+      "3rd",
+      "11th",
+      "22nd",
+      "103rd",
+    ]);
+  });
+
+  it("leaves values it can't read, and unknown formatters, alone", () => {
+    expect(format("soon", 'date|format:"yyyy"')).toBe("soon");
+    expect(format("n/a", "score|number:2")).toBe("n/a");
+    expect(format("Jane", "name|sparkle")).toBe("Jane");
+  });
+});
+
+describe("fillPlaceholders", () => {
+  it("formats each placeholder and leaves formatters out of the keys", () => {
+    const template = '{{name|title}} placed {{rank|ordinal}} on {{date|format:"MMM d"}}';
+    const row: Record<string, string> = { name: "JANE DOE", rank: "2", date: "2026-03-04" };
+
+    expect(fillPlaceholders(template, (key) => row[key])).toBe("Jane Doe placed 2nd on Mar 4");
+    expect(placeholderKeys(template)).toEqual(["name", "rank", "date"]);
+  });
+
+  it("uses the fallback for empty values", () => {
+    expect(fillPlaceholders("{{name|upper}}!", () => "", { fallback: (key) => `{{${key}}}` })).toBe("{{name}}!");
+  });
+});
@@ -0,0 +1,83 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { HISTORY_LIMIT, useHistory } from "@/hooks/useHistory";
+
+function renderHistory() {
+  return renderHook(() => useHistory(0));
+}
+
+describe("useHistory", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("undoes and redoes one step per change", () => {
+    const { result } = renderHistory();
+    act(() => result.current.set((n) => n + 1));
+    act(() => result.current.set((n) => n + 1));
+    act(() => result.current.undo());
+    expect(result.current.present).toBe(1);
+    act(() => result.current.redo());
+    expect(result.current.present).toBe(2);
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it("folds changes with the same key into one step while they come quickly", () => {
+    vi.useFakeTimers();
+    const { result } = renderHistory();
+    act(() => result.current.set(() => 1, "size"));
+    act(() => result.current.set(() => 2, "size"));
+    act(() => result.current.set(() => 3, "size"));
+    // A pause, or a different key, starts a new step
+    vi.advanceTimersByTime(1500);
+    act(() => result.current.set(() => 4, "size"));
+    act(() => result.current.set(() => 5, "color"));
+
+    act(() => result.current.undo());
+    expect(result.current.present).toBe(4);
+    act(() => result.current.undo());
+    expect(result.current.present).toBe(3);
+    act(() => result.current.undo());
+    expect(result.current.present).toBe(0);
+    expect(result.current.canUndo).toBe(false);
+  });
+
+  it("ignores updates that return the present value", () => {
+    const { result } = renderHistory();
+    act(() => result.current.set((n) => n));
+    expect(result.current.canUndo).toBe(false);
+  });
+
+  it("keeps only the latest steps", () => {
+    const { result } = renderHistory();
+    for (let i = 0; i < HISTORY_LIMIT + 5; i++) {
+      act(() => result.current.set((n) => n + 1));
+    }
+    for (let i = 0; i < HISTORY_LIMIT; i++) {
+      act(() => result.current.undo());
+    }
+    expect(result.current.present).toBe(5);
+    expect(result.current.canUndo).toBe(false);
+  });
+
+  it("drops the redo steps when a new change follows an undo", () => {
+    const { result } = renderHistory();
+    act(() => result.current.set(() => 1));
+    act(() => result.current.set(() => 2));
+    act(() => result.current.undo());
+    act(() => result.current.set(() => 10));
+    expect(result.current.canRedo).toBe(false);
+    act(() => result.current.redo());
+    expect(result.current.present).toBe(10);
+    act(() => result.current.undo());
+    expect(result.current.present).toBe(1);
+  });
+
+  it("starts over from a reset value", () => {
+    const { result } = renderHistory();
+    act(() => result.current.set(() => 1));
+    act(() => result.current.reset(7));
+    expect(result.current.present).toBe(7);
+    expect(result.current.canUndo).toBe(false);
+  });
+});
@@ -0,0 +1,301 @@
+import { describe, it, expect } from "vitest";
+import {
+  fieldDataKeys,
+  getFieldValue,
+  imagePlacement,
+  layoutCertificate,
+  layoutField,
+  layoutImage,
+  layoutPages,
+  layoutText,
+  templatePages,
+} from "@/lib/certificates/layout";
+import { qrContentForMode, qrContentMode } from "@/lib/certificates/qr";
+import type { MeasureText, TemplateField } from "@/lib/certificates/types";
+
+const measure: MeasureText = (text, font) => text.length * font.size * 0.5;
+
+const field: TemplateField = {
+  id: "f1",
+  field_key: "name",
+  label: "Name",
+  x: 400,
+  y: 300,
+  font_size: 20,
+  font_family: "Arial",
+  font_color: "#000000",
+  text_align: "center",
+  max_width: null,
+};
+
+describe("layoutText", () => {
+  it("centres the text on the field's anchor", () => {
+    const element = layoutText(field, "Jane Doe", measure);
+    expect(element.width).toBe(80);
+    expect(element.x).toBe(360);
+    expect(element.offsetX).toBe(40);
+    expect(element.y).toBe(300);
+  });
+
+  it("right-aligns the text so it ends at the anchor", () => {
+    const element = layoutText({ ...field, text_align: "right" }, "Jane Doe", measure);
+    expect(element.x).toBe(320);
+  });
+
+  it("uses max_width as the box width when set", () => {
+    const element = layoutText({ ...field, max_width: 300 }, "Jane Doe", measure);
+    expect(element.width).toBe(300);
+    expect(element.x).toBe(250);
+  });
+});
+
+describe("text fitting", () => {
+  const long = "Maximilian Alexander Montgomery-Worthington";
+
+  it("shrinks the font until the text fits the max width", () => {
+    const element = layoutText({ ...field, max_width: 215, text_fit: "shrink" }, long, measure);
+    expect(element.font.size).toBe(10);
+    expect(element.lines[0].width).toBeLessThanOrEqual(215);
+  });
+
+  it("stops shrinking at the minimum size", () => {
+    const element = layoutText({ ...field, max_width: 215, text_fit: "shrink", min_font_size: 12 }, long, measure);
+    expect(element.font.size).toBe(12);
+  });
+
+  it("wraps onto more lines and ends the last allowed one with an ellipsis", () => {
+    const wrapped = layoutText({ ...field, max_width: 100, text_fit: "wrap" }, "Jane Mary Doe", measure);
+    expect(wrapped.lines.map((l) => l.text)).toEqual(["Jane Mary", "Doe"]);
+    expect(wrapped.height).toBe(40);
+
+    const limited = layoutText({ ...field, max_width: 100, text_fit: "wrap", max_lines: 1 }, "Jane Mary Doe", measure);
+    expect(limited.lines.map((l) => l.text)).toEqual(["Jane Mary…"]);
+  });
+
+  it("truncates with an ellipsis", () => {
+    const element = layoutText({ ...field, max_width: 60, text_fit: "truncate" }, "Jane Doe Smith", measure);
+    expect(element.lines.map((l) => l.text)).toEqual(["Jane…"]);
+  });
+
+  it("leaves text that fits alone", () => {
+    const element = layoutText({ ...field, max_width: 300, text_fit: "shrink" }, "Jane Doe", measure);
+    expect(element.font.size).toBe(20);
+    expect(element.lines[0].text).toBe("Jane Doe");
+  });
+});
+
+describe("text styling", () => {
+  it("changes the case before measuring", () => {
+    expect(layoutText({ ...field, text_transform: "uppercase" }, "jane doe", measure).text).toBe("JANE DOE");
+    expect(layoutText({ ...field, text_transform: "title" }, "jANE o'neil-SMITH", measure).text).toBe("Jane O'neil-Smith");
+  });
+
+  it("counts letter spacing in the width and line height in the height", () => {
+    const element = layoutText({ ...field, letter_spacing: 2, line_height: 1.5 }, "Jane", measure);
+    expect(element.lines[0].width).toBe(48);
+    expect(element.height).toBe(30);
+  });
+
+  it("only outlines or shadows text that has a color for it", () => {
+    expect(layoutText({ ...field, stroke_width: 2 }, "Jane", measure).stroke).toBeUndefined();
+    const element = layoutText(
+      { ...field, stroke_color: "#ffffff", stroke_width: 2, shadow_color: "#000000", shadow_offset_y: 3 },
+      "Jane",
+      measure
+    );
+    expect(element.stroke).toEqual({ color: "#ffffff", width: 2 });
+    expect(element.shadow).toEqual({ color: "#000000", blur: 0, offsetX: 0, offsetY: 3 });
+  });
+});
+
+describe("getFieldValue", () => {
+  const row = { "Full Name": "Jane Doe", Course: "" };
+
+  it("reads the mapped CSV column", () => {
+    expect(getFieldValue(field, row, { name: "Full Name" })).toBe("Jane Doe");
+  });
+
+  it("falls back to the placeholder only when asked", () => {
+    const courseField = { ...field, field_key: "course" };
+    expect(getFieldValue(courseField, row, { course: "Course" })).toBe("");
+    expect(getFieldValue(courseField, row, { course: "Course" }, { showPlaceholders: true })).toBe("{{course}}");
+  });
+
+  it("fills verification fields from the certificate, not the CSV", () => {
+    const verification = { code: "7K2M9QXR4T", url: "https://example.com/verify/7K2M9QXR4T" };
+    const codeField = { ...field, field_key: "verification_code", field_type: "verification_code" };
+    const urlField = { ...field, field_key: "verification_url", field_type: "verification_url" };
+    const verificationRow = { verification_code: "from the CSV" };
+
+    expect(getFieldValue(codeField, verificationRow, {}, { verification })).toBe("7K2M9QXR4T");
+    expect(getFieldValue(urlField, verificationRow, {}, { verification })).toBe(verification.url);
+    expect(getFieldValue(codeField, verificationRow, { verification_code: "verification_code" })).toBe("");
+  });
+});
+
+describe("text templates", () => {
+  const sentence = {
+    ...field,
+    field_key: "text",
+    content: "{{name}} completed {{ course }}. Well done, {{name}}!",
+  };
+
+  it("fills every placeholder, repeated ones included, around the static text", () => {
+    const row = { "Full Name": "Jane Doe", course: "Biology" };
+    expect(getFieldValue(sentence, row, { name: "Full Name" })).toBe("Jane Doe completed Biology. Well done, Jane Doe!");
+  });
+
+  it("shows unfilled placeholders only when asked", () => {
+    expect(getFieldValue(sentence, {}, {})).toBe(" completed . Well done, !");
+    expect(getFieldValue(sentence, {}, {}, { showPlaceholders: true })).toBe(sentence.content.replace("{{ course }}", "{{course}}"));
+  });
+
+  it("asks for the placeholders' columns instead of the field key", () => {
+    expect(fieldDataKeys([sentence, { ...field, field_key: "date" }])).toEqual(["name", "course", "date"]);
+  });
+});
+
+describe("conditions and defaults", () => {
+  const distinction = {
+    ...field,
+    id: "f2",
+    field_key: "honours",
+    show_when: "equals",
+    show_when_key: "grade",
+    show_when_value: "A",
+  };
+  const page = { image_url: "bg.png", image_width: 800, image_height: 600 };
+
+  it("leaves out fields whose condition doesn't match the row", () => {
+    const ids = (row: Record<string, string>) =>
+      layoutCertificate(page, [field, distinction], row, {}, measure).elements.map((e) => e.id);
+    expect(ids({ grade: " a " })).toEqual(["f1", "f2"]);
+    expect(ids({ grade: "B" })).toEqual(["f1"]);
+  });
+
+  it("shows every field in template previews", () => {
+    const layout = layoutCertificate(page, [distinction], {}, {}, measure, { showPlaceholders: true });
+    expect(layout.elements).toHaveLength(1);
+  });
+
+  it("asks for the columns conditions read", () => {
+    expect(fieldDataKeys([{ ...distinction }])).toEqual(["honours", "grade"]);
+  });
+
+  it("uses the default value for empty cells", () => {
+    const withDefault = { ...field, default_value: "Friend" };
+    expect(getFieldValue(withDefault, { name: "" }, { name: "name" })).toBe("Friend");
+    expect(getFieldValue({ ...withDefault, content: "Dear {{name}}," }, {}, {}, { showPlaceholders: true })).toBe(
+      "Dear Friend,"
+    );
+  });
+});
+
+describe("QR fields", () => {
+  const qrField: TemplateField = {
+    ...field,
+    field_key: "qr_code",
+    field_type: "qr",
+    width: 100,
+    content: "{{verification_url}}?ref={{ref}}",
+  };
+  const verification = { code: "7K2M9QXR4T", url: "https://example.com/verify/7K2M9QXR4T" };
+
+  it("fills the content's placeholders from the certificate and the CSV", () => {
+    expect(getFieldValue(qrField, { Ref: "a1" }, { ref: "Ref" }, { verification })).toBe(
+      "https://example.com/verify/7K2M9QXR4T?ref=a1"
+    );
+  });
+
+  it("only asks the CSV for the non-verification keys", () => {
+    expect(fieldDataKeys([field, qrField])).toEqual(["name", "ref"]);
+  });
+
+  it("lays out a square from the top-left corner", () => {
+    const element = layoutField(qrField, "https://example.com", measure);
+    expect(element).toMatchObject({ kind: "qr", x: 400, y: 300, size: 100 });
+    expect(element.kind === "qr" && element.modules.length).toBeGreaterThan(20);
+  });
+
+  it("draws nothing for text too long for any QR code, rather than throwing", () => {
+    const element = layoutField(qrField, "x".repeat(3000), measure);
+    expect(element.kind === "qr" && element.modules).toEqual([]);
+  });
+
+  it("switches the editor's content modes, each reading back as the mode chosen", () => {
+    const modes = ["verification", "column", "custom", "verification"] as const;
+    let content = "{{verification_url}}";
+    for (const mode of modes) {
+      content = qrContentForMode(mode, content);
+      expect(qrContentMode(content)).toBe(mode);
+    }
+    expect(qrContentForMode("column", "{{verification_url}}")).toBe("{{url}}");
+    // Content already in the mode is kept
+    expect(qrContentForMode("custom", "ID {{ref}}")).toBe("ID {{ref}}");
+    expect(qrContentForMode("column", "{{profile}}")).toBe("{{profile}}");
+  });
+});
+
+describe("image fields", () => {
+  const imageField: TemplateField = {
+    ...field,
+    field_key: "image",
+    field_type: "image",
+    x: 10,
+    y: 20,
+    width: 100,
+    height: 50,
+    content: "{{photo}}",
+  };
+
+  it("resolves bare file names against the asset folder and keeps full URLs", () => {
+    const options = { assetBaseUrl: "https://cdn.example.com/u1/assets/" };
+    expect(getFieldValue(imageField, { photo: "jane doe.jpg" }, {}, options)).toBe(
+      "https://cdn.example.com/u1/assets/jane%20doe.jpg"
+    );
+    expect(getFieldValue(imageField, { photo: "https://example.com/a.png" }, {}, options)).toBe("https://example.com/a.png");
+    expect(getFieldValue(imageField, {}, {}, { ...options, showPlaceholders: true })).toBe("");
+  });
+
+  it("fits the image inside the box or covers it", () => {
+    const contain = layoutImage(imageField, "a.png");
+    expect(imagePlacement(contain, 200, 200)).toEqual({ x: 35, y: 20, width: 50, height: 50 });
+
+    const cover = layoutImage({ ...imageField, image_fit: "cover" }, "a.png");
+    expect(imagePlacement(cover, 200, 200)).toEqual({ x: 10, y: -5, width: 100, height: 100 });
+  });
+});
+
+describe("layoutCertificate", () => {
+  it("sizes the page from the template", () => {
+    const layout = layoutCertificate(
+      { image_url: "bg.png", image_width: 800, image_height: 600 },
+      [field],
+      { name: "Jane" },
+      { name: "name" },
+      measure
+    );
+    expect(layout).toMatchObject({ width: 800, height: 600, backgroundUrl: "bg.png" });
+    expect(layout.elements[0]).toMatchObject({ kind: "text", text: "Jane" });
+  });
+});
+
+describe("layoutPages", () => {
+  const template = { image_url: "front.png", image_width: 800, image_height: 600 };
+
+  it("treats a template without pages as a single page", () => {
+    expect(templatePages(template, [])).toEqual([{ page_index: 0, ...template }]);
+  });
+
+  it("lays out each page with only its own fields", () => {
+    const pages = templatePages(template, [
+      { page_index: 1, image_url: "back.png", image_width: 600, image_height: 800 },
+      { page_index: 0, ...template },
+    ]);
+    const layouts = layoutPages(pages, [field, { ...field, id: "f2", page_index: 1 }], { name: "Jane" }, {}, measure);
+
+    expect(layouts.map((l) => l.backgroundUrl)).toEqual(["front.png", "back.png"]);
+    expect(layouts[1]).toMatchObject({ width: 600, height: 800 });
+    expect(layouts.map((l) => l.elements.map((e) => e.id))).toEqual([["f1"], ["f2"]]);
+  });
+});
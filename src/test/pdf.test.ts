@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from "vitest";
+import { PDFDict, PDFDocument, PDFName } from "pdf-lib";
+import { renderCertificatePdf } from "@/lib/certificates/pdf";
+import type { CertificateTemplate, TemplateField, TemplatePage } from "@/lib/certificates/types";
+
+// A 1×1 PNG
+const PNG = Uint8Array.from(
+  atob("iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=="),
+  (c) => c.charCodeAt(0)
+);
+
+const template: CertificateTemplate = { id: "t1", name: "Course", image_url: "bg.png", image_width: 800, image_height: 600 };
+const pages: TemplatePage[] = [
+  { page_index: 0, image_url: "front.png", image_width: 800, image_height: 600 },
+  { page_index: 1, image_url: "back.png", image_width: 600, image_height: 400 },
+];
+const field: TemplateField = {
+  id: "f1",
+  field_key: "name",
+  label: "Name",
+  x: 400,
+  y: 300,
+  font_size: 32,
+  font_family: "Times New Roman",
+  font_color: "#000000",
+  text_align: "center",
+};
+const row = { "Full Name": "Zoë Doe ✓" };
+const mapping = { name: "Full Name" };
+
+function render(fields: TemplateField[], renderPages = pages, resources = {}) {
+  return renderCertificatePdf(template, renderPages, fields, row, mapping, { loadImage: async () => PNG, ...resources });
+}
+
+// The BaseFont of every font in the file, e.g. "/Times-Bold"
+async function fontNames(bytes: Uint8Array) {
+  const doc = await PDFDocument.load(bytes);
+  return doc.context
+    .enumerateIndirectObjects()
+    .map(([, object]) => object)
+    .filter((object): object is PDFDict => object instanceof PDFDict && object.get(PDFName.of("Type")) === PDFName.of("Font"))
+    .map((font) => String(font.get(PDFName.of("BaseFont"))))
+    .sort();
+}
+
+describe("renderCertificatePdf", () => {
+  it("makes a page per template page, each the size of its background", async () => {
+    const doc = await PDFDocument.load(await render([field]));
+    expect(doc.getPages().map((page) => [page.getWidth(), page.getHeight()])).toEqual([
+      [800, 600],
+      [600, 400],
+    ]);
+    expect(doc.getTitle()).toBe("Course");
+  });
+
+  it("maps editor fonts to the standard PDF fonts, one per face in use", async () => {
+    const bold = { ...field, id: "f2", font_weight: 700, font_italic: true };
+    const other = { ...field, id: "f3", font_family: "Arial" };
+    expect(await fontNames(await render([field, bold, other, { ...field, id: "f4" }], pages.slice(0, 1)))).toEqual([
+      "/Helvetica",
+      "/Times-BoldItalic",
+      "/Times-Roman",
+    ]);
+  });
+
+  it("falls back to a standard font for uploaded families it can't load, and draws what the font lacks as '?'", async () => {
+    const fonts = [{ family: "Brand Sans", weight: 400, style: "normal", file_url: "https://example.com/brand.woff2" }];
+    const bytes = await render([{ ...field, font_family: "Brand Sans" }], pages.slice(0, 1), { fonts });
+    expect(await fontNames(bytes)).toEqual(["/Helvetica"]);
+
+    // Families that weren't uploaded never ask the loader
+    const loadFont = vi.fn();
+    await render([field], pages.slice(0, 1), { fonts, loadFont });
+    expect(loadFont).not.toHaveBeenCalled();
+  });
+
+  it("asks the loader for the uploaded face closest to the field's", async () => {
+    const fonts = [
+      { family: "Brand Sans", weight: 400, style: "normal", file_url: "https://example.com/400.woff2" },
+      { family: "Brand Sans", weight: 700, style: "normal", file_url: "https://example.com/700.woff2" },
+    ];
+    const loadFont = vi.fn(async () => {
+      throw new Error("offline");
+    });
+    await expect(
+      render([{ ...field, font_family: "Brand Sans", font_weight: 600 }], pages.slice(0, 1), { fonts, loadFont })
+    ).rejects.toThrow("offline");
+    expect(loadFont).toHaveBeenCalledWith("https://example.com/700.woff2");
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { preflightRows } from "@/lib/certificates/preflight";
+import type { MeasureText, TemplateField, TemplatePage } from "@/lib/certificates/types";
+
+const measure: MeasureText = (text, font) => text.length * font.size * 0.5;
+
+const pages: TemplatePage[] = [{ page_index: 0, image_url: "bg.png", image_width: 800, image_height: 600 }];
+
+const field: TemplateField = {
+  id: "f1",
+  field_key: "name",
+  label: "Name",
+  x: 400,
+  y: 300,
+  font_size: 20,
+  font_family: "Arial",
+  font_color: "#000000",
+  text_align: "center",
+  max_width: 200,
+};
+const mapping = { name: "Full Name" };
+
+function problems(fields: TemplateField[], name: string, format: "png" | "pdf" = "png") {
+  return preflightRows(pages, fields, [{ "Full Name": name }], mapping, measure, format).map((i) => i.problem);
+}
+
+describe("preflightRows", () => {
+  it("passes values that fit", () => {
+    expect(problems([field], "Jane Doe")).toEqual([]);
+  });
+
+  it("flags values that overflow their box, or are shrunk too far to fit it", () => {
+    const long = "Maximilian Alexander Montgomery-Worthington";
+    expect(problems([field], long)).toEqual(["overflow"]);
+    expect(problems([{ ...field, text_fit: "shrink" }], long)).toEqual(["shrunk"]);
+    expect(problems([{ ...field, text_fit: "shrink", min_font_size: 16 }], long)).toEqual(["overflow"]);
+  });
+
+  it("flags empty values and characters the output fonts lack", () => {
+    expect(problems([field], "")).toEqual(["empty"]);
+    expect(problems([field], "Łukasz")).toEqual(["missing_characters"]);
+    expect(problems([field], "Œuvre", "pdf")).toEqual([]);
+  });
+
+  it("flags QR codes with more text than a QR code holds", () => {
+    const qr: TemplateField = { ...field, field_type: "qr", content: "{{name}}", width: 100 };
+    expect(problems([qr], "https://example.com")).toEqual([]);
+    expect(problems([qr], "x".repeat(3000))).toEqual(["overflow"]);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import {
+  PASTE_OFFSET,
+  boxBetween,
+  copyFields,
+  marqueeSelection,
+  sharedValue,
+  shiftFontSizes,
+  toggleSelection,
+} from "@/lib/certificates/selection";
+
+describe("toggleSelection", () => {
+  it("selects just the clicked field, or toggles it in and out of the selection when additive", () => {
+    expect(toggleSelection(["a", "b"], "c", false)).toEqual(["c"]);
+    expect(toggleSelection(["a", "b"], "c", true)).toEqual(["a", "b", "c"]);
+    expect(toggleSelection(["a", "b"], "a", true)).toEqual(["b"]);
+  });
+});
+
+describe("marqueeSelection", () => {
+  const boxes = new Map([
+    ["a", { x: 0, y: 0, width: 10, height: 10 }],
+    ["b", { x: 100, y: 100, width: 10, height: 10 }],
+  ]);
+
+  it("selects the fields the marquee touches, dragged out in any direction", () => {
+    const area = boxBetween({ x: 20, y: 20 }, { x: 5, y: 5 });
+    expect(area).toEqual({ x: 5, y: 5, width: 15, height: 15 });
+    expect(marqueeSelection(["b"], boxes, area, false)).toEqual(["a"]);
+  });
+
+  it("adds to the selection when additive, without repeating fields", () => {
+    const area = boxBetween({ x: 0, y: 0 }, { x: 200, y: 200 });
+    expect(marqueeSelection(["b"], boxes, area, true)).toEqual(["b", "a"]);
+  });
+});
+
+describe("copyFields", () => {
+  it("offsets the copies onto the given page with new ids and labels", () => {
+    const fields = [
+      { id: "f1", label: "Name", x: 10, y: 20, page_index: 0, font_size: 24 },
+      { id: "f2", label: "Date", x: 50, y: 60 },
+    ];
+    expect(copyFields(fields, 1, 123)).toEqual([
+      { id: "temp-123-0", label: "Name copy", x: 10 + PASTE_OFFSET, y: 20 + PASTE_OFFSET, page_index: 1, font_size: 24 },
+      { id: "temp-123-1", label: "Date copy", x: 50 + PASTE_OFFSET, y: 60 + PASTE_OFFSET, page_index: 1 },
+    ]);
+  });
+});
+
+describe("sharedValue", () => {
+  it("is the value every field shares, or undefined when they differ", () => {
+    expect(sharedValue([24, 24])).toBe(24);
+    expect(sharedValue([24, 32])).toBeUndefined();
+  });
+});
+
+describe("shiftFontSizes", () => {
+  const fields = [
+    { id: "a", font_size: 24 },
+    { id: "b", font_size: 48 },
+    { id: "c", font_size: 100 },
+  ];
+
+  it("moves every selected size by as much as the first one changed, keeping their differences", () => {
+    expect(shiftFontSizes(fields, ["a", "b"], 30, 12, 120)).toEqual([
+      { id: "a", font_size: 30 },
+      { id: "b", font_size: 54 },
+      { id: "c", font_size: 100 },
+    ]);
+  });
+
+  it("keeps sizes within the limits", () => {
+    expect(shiftFontSizes(fields, ["a", "c"], 50, 12, 120).map((f) => f.font_size)).toEqual([50, 48, 120]);
+  });
+});
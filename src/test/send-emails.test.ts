@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createCaptureTransport } from "../../supabase/functions/_shared/mail/capture";
+import { MAX_ATTACHMENT_BYTES, deliver, type Batch, type CertificateRow } from "../../supabase/functions/send-emails/deliver";
+
+const batch: Batch = {
+  id: "b1",
+  user_id: "u1",
+  output_format: "pdf",
+  email_delivery: "attachment",
+  field_mapping: { name: "Full Name" },
+  certificate_templates: {
+    name: "Workshop",
+    email_templates: { subject: "Your {{certificate_name}}", body_html: "<p>Hi {{name}}</p>", body_text: "Hi {{name}}" },
+  },
+};
+const certificate: CertificateRow = {
+  id: "c1",
+  recipient_name: "Jane Doe",
+  recipient_email: "jane@example.com",
+  recipient_data: { "Full Name": "Jane Doe" },
+  certificate_url: "https://example.com/c1.pdf",
+  email_attempts: 0,
+};
+
+// Just enough of the Supabase client for deliver: the certificate file, row updates and counters
+function fakeAdmin({ size = 3, updateError = null as Error | null } = {}) {
+  const updates: Record<string, unknown>[] = [];
+  const counts: Record<string, unknown>[] = [];
+  const client = {
+    storage: {
+      from: () => ({
+        download: async () => ({
+          data: { size, arrayBuffer: async () => new Uint8Array([1, 2, 3]).buffer },
+          error: null,
+        }),
+      }),
+    },
+    from: () => ({
+      update: (values: Record<string, unknown>) => ({
+        eq: async () => {
+          updates.push(values);
+          return { error: updateError };
+        },
+      }),
+    }),
+    rpc: async (_name: string, args: Record<string, unknown>) => {
+      counts.push(args);
+      return { error: null };
+    },
+  };
+  return { admin: client as unknown as SupabaseClient, updates, counts };
+}
+
+describe("deliver", () => {
+  it("sends the certificate attached, then marks it sent and counts it", async () => {
+    const { admin, updates, counts } = fakeAdmin();
+    const transport = createCaptureTransport();
+    await deliver(admin, transport, "certs@example.com", batch, certificate);
+
+    expect(transport.messages).toHaveLength(1);
+    expect(transport.messages[0]).toMatchObject({
+      from: "certs@example.com",
+      to: "jane@example.com",
+      subject: "Your Workshop",
+      text: "Hi Jane Doe",
+    });
+    expect(transport.messages[0].attachments?.map((a) => a.filename)).toEqual(["certificate.pdf"]);
+    expect(updates).toMatchObject([{ email_status: "sent", email_error: null, email_attempts: 1 }]);
+    expect(counts).toMatchObject([{ _batch_id: "b1", _sent: 1, _failed: 0 }]);
+  });
+
+  it("links certificates too large to attach", async () => {
+    const { admin } = fakeAdmin({ size: MAX_ATTACHMENT_BYTES + 1 });
+    const transport = createCaptureTransport();
+    await deliver(admin, transport, "certs@example.com", batch, certificate);
+
+    expect(transport.messages[0].attachments).toBeUndefined();
+    expect(transport.messages[0].text).toContain("https://example.com/c1.pdf");
+  });
+
+  it("records transport errors against the certificate", async () => {
+    const { admin, updates, counts } = fakeAdmin();
+    const transport = {
+      name: "broken",
+      send: async () => {
+        throw new Error("Connection refused");
+      },
+    };
+    await deliver(admin, transport, "certs@example.com", batch, certificate);
+
+    expect(updates).toMatchObject([{ email_status: "failed", email_error: "Connection refused", email_attempts: 1 }]);
+    expect(counts).toMatchObject([{ _sent: 0, _failed: 1 }]);
+  });
+
+  it("throws when the outcome can't be recorded, without counting it", async () => {
+    const { admin, counts } = fakeAdmin({ updateError: new Error("Database unavailable") });
+    await expect(deliver(admin, createCaptureTransport(), "certs@example.com", batch, certificate)).rejects.toThrow(
+      "Database unavailable"
+    );
+    expect(counts).toEqual([]);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { alignOffsets, distributeOffsets, intersects, snapBox } from "@/lib/certificates/snapping";
+
+const page = { width: 800, height: 600 };
+
+describe("snapBox", () => {
+  it("snaps an edge or centre to the page's when within the threshold", () => {
+    // Centre at 397 → 400
+    expect(snapBox({ x: 347, y: 100, width: 100, height: 20 }, { page, others: [], threshold: 5 })).toEqual({
+      x: 350,
+      y: 100,
+      guides: [{ orientation: "vertical", position: 400 }],
+    });
+    expect(snapBox({ x: 340, y: 100, width: 100, height: 20 }, { page, others: [], threshold: 5 }).guides).toEqual([]);
+  });
+
+  it("snaps to other boxes, preferring the closest line", () => {
+    const others = [{ x: 100, y: 200, width: 50, height: 40 }];
+    // Top 198 and bottom 218 are both 2 away from a line (the other box's top and centre); the top edge wins ties
+    const snapped = snapBox({ x: 500, y: 198, width: 60, height: 20 }, { page, others, threshold: 5 });
+    expect(snapped.y).toBe(200);
+    expect(snapped.guides).toEqual([{ orientation: "horizontal", position: 200 }]);
+  });
+
+  it("falls back to the grid", () => {
+    expect(snapBox({ x: 123, y: 88, width: 10, height: 10 }, { page, others: [], threshold: 2, grid: 20 })).toEqual({
+      x: 120,
+      y: 80,
+      guides: [],
+    });
+  });
+});
+
+describe("alignment", () => {
+  const boxes = [
+    { x: 10, y: 10, width: 100, height: 20 },
+    { x: 200, y: 50, width: 50, height: 40 },
+  ];
+
+  it("aligns boxes to the edges and centres of their bounds", () => {
+    expect(alignOffsets(boxes, "left")).toEqual([
+      { dx: 0, dy: 0 },
+      { dx: -190, dy: 0 },
+    ]);
+    expect(alignOffsets(boxes, "bottom")).toEqual([
+      { dx: 0, dy: 60 },
+      { dx: 0, dy: 0 },
+    ]);
+    expect(alignOffsets([boxes[0]], "center", { x: 0, y: 0, ...page })).toEqual([{ dx: 340, dy: 0 }]);
+  });
+
+  it("spaces boxes evenly between the outermost ones", () => {
+    const row = [
+      { x: 0, y: 0, width: 10, height: 10 },
+      { x: 100, y: 0, width: 20, height: 10 },
+      { x: 30, y: 0, width: 10, height: 10 },
+    ];
+    // 120 wide, 40 of it boxes: two gaps of 40
+    expect(distributeOffsets(row, "horizontal")).toEqual([
+      { dx: 0, dy: 0 },
+      { dx: 0, dy: 0 },
+      { dx: 20, dy: 0 },
+    ]);
+    expect(distributeOffsets(row.slice(0, 2), "horizontal")).toEqual([
+      { dx: 0, dy: 0 },
+      { dx: 0, dy: 0 },
+    ]);
+  });
+});
+
+describe("intersects", () => {
+  it("counts any overlap, but not boxes that only touch", () => {
+    const field = { x: 100, y: 100, width: 50, height: 20 };
+    expect(intersects(field, { x: 140, y: 0, width: 100, height: 105 })).toBe(true);
+    expect(intersects(field, { x: 150, y: 100, width: 10, height: 10 })).toBe(false);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { variantTemplateId, variantTemplateIds } from "@/lib/certificates/variants";
+
+const variants = { Speaker: "t-speaker", Organizer: "t-organizer" };
+
+describe("variantTemplateId", () => {
+  it("picks the template for the row's value, ignoring case and spaces", () => {
+    expect(variantTemplateId({ Role: " speaker " }, { role: "Role" }, "role", variants, "t-default")).toBe("t-speaker");
+    expect(variantTemplateId({ role: "Organizer" }, {}, "role", variants, "t-default")).toBe("t-organizer");
+  });
+
+  it("falls back to the batch's template", () => {
+    expect(variantTemplateId({ role: "Participant" }, {}, "role", variants, "t-default")).toBe("t-default");
+    expect(variantTemplateId({ role: "Speaker" }, {}, null, variants, "t-default")).toBe("t-default");
+  });
+});
+
+describe("variantTemplateIds", () => {
+  it("lists each template once, the default first", () => {
+    expect(variantTemplateIds({ ...variants, Keynote: "t-speaker" }, "t-default")).toEqual([
+      "t-default",
+      "t-speaker",
+      "t-organizer",
+    ]);
+  });
+});
@@ -0,0 +1,18 @@
+import { createClient } from '@supabase/supabase-js';
+
+export function isServiceRole(authorization: string) {
+  return authorization === `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`;
+}
+
+// Row level security decides: a caller can act on a batch only if they can read it
+export async function canAccessBatch(authorization: string, batchId: string) {
+  const caller = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: authorization } },
+  });
+  const { data } = await caller.from('batch_jobs').select('id').eq('id', batchId).maybeSingle();
+  return !!data;
+}
+
+export function createAdminClient() {
+  return createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+}
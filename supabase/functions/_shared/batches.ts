@@ -0,0 +1,23 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Counters are bumped atomically in the database so concurrent workers never overwrite each other
+export async function incrementBatchCounts(
+  admin: SupabaseClient,
+  batchId: string,
+  counts: { generated?: number; sent?: number; failed?: number }
+) {
+  const { error } = await admin.rpc('increment_batch_counts', {
+    _batch_id: batchId,
+    _generated: counts.generated ?? 0,
+    _sent: counts.sent ?? 0,
+    _failed: counts.failed ?? 0,
+  });
+
+  if (error) throw error;
+}
+
+// Rebuild the counters from the certificates themselves, once a run is over
+export async function recomputeBatchCounts(admin: SupabaseClient, batchId: string) {
+  const { error } = await admin.rpc('recompute_batch_counts', { _batch_id: batchId });
+  if (error) throw error;
+}
@@ -0,0 +1,33 @@
+// The edge runtime has no system fonts, so each editor font is backed by an
+// open, metrically compatible (or closest available) family from Fontsource
+const FONT_SOURCES: Record<string, string> = {
+  Arial: 'arimo',
+  'Times New Roman': 'tinos',
+  Georgia: 'gelasio',
+  Verdana: 'noto-sans',
+  'Courier New': 'cousine',
+  'Trebuchet MS': 'fira-sans',
+  Impact: 'anton',
+};
+
+const fontCache = new Map<string, Promise<Uint8Array | null>>();
+
+function fetchFile(id: string, weight: number, style: string) {
+  const key = `${id}-${weight}-${style}`;
+  if (!fontCache.has(key)) {
+    const url = `https://cdn.jsdelivr.net/fontsource/fonts/${id}@latest/latin-${weight}-${style}.ttf`;
+    fontCache.set(
+      key,
+      fetch(url)
+        .then(async (response) => (response.ok ? new Uint8Array(await response.arrayBuffer()) : null))
+        .catch(() => null)
+    );
+  }
+  return fontCache.get(key)!;
+}
+
+// Not every family has every weight and style; those fall back to the regular face
+export async function fetchFont(family: string, weight = 400, style = 'normal') {
+  const id = FONT_SOURCES[family] ?? FONT_SOURCES.Arial;
+  return (await fetchFile(id, weight, style)) ?? (await fetchFile(id, 400, 'normal'));
+}
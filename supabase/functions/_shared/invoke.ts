@@ -0,0 +1,15 @@
+// Fire a worker function with the service role, e.g. to continue a batch with a fresh time budget
+export async function invokeFunction(name: string, body: Record<string, unknown>) {
+  const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    console.error(`Failed to invoke ${name}: ${response.status} ${await response.text()}`);
+  }
+}
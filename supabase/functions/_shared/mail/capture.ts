@@ -0,0 +1,15 @@
+import type { MailMessage, MailTransport } from './transport.ts';
+
+// Keeps messages in memory instead of sending them, for local runs and tests
+export function createCaptureTransport(): MailTransport & { messages: MailMessage[] } {
+  const messages: MailMessage[] = [];
+
+  return {
+    name: 'capture',
+    messages,
+    async send(message: MailMessage) {
+      messages.push(message);
+      console.log(`[capture] ${message.to}: ${message.subject}`);
+    },
+  };
+}
@@ -0,0 +1,31 @@
+import { createCaptureTransport } from './capture.ts';
+import { createSmtpTransport } from './smtp.ts';
+import type { MailTransport } from './transport.ts';
+
+export type { MailAttachment, MailMessage, MailTransport } from './transport.ts';
+
+// Picks the transport from MAIL_TRANSPORT (`smtp` or `capture`), defaulting to SMTP
+export function createTransportFromEnv(): MailTransport {
+  const kind = Deno.env.get('MAIL_TRANSPORT') ?? 'smtp';
+
+  if (kind === 'capture') {
+    return createCaptureTransport();
+  }
+  if (kind === 'smtp') {
+    const host = Deno.env.get('SMTP_HOST');
+    if (!host) throw new Error('SMTP_HOST is not configured');
+    return createSmtpTransport({
+      host,
+      port: Number(Deno.env.get('SMTP_PORT') ?? 465),
+      user: Deno.env.get('SMTP_USER'),
+      password: Deno.env.get('SMTP_PASSWORD'),
+    });
+  }
+  throw new Error(`Unknown MAIL_TRANSPORT "${kind}"`);
+}
+
+export function mailFromAddress() {
+  const from = Deno.env.get('MAIL_FROM');
+  if (!from) throw new Error('MAIL_FROM is not configured');
+  return from;
+}
@@ -0,0 +1,37 @@
+import nodemailer from 'nodemailer';
+import type { MailMessage, MailTransport } from './transport.ts';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  user?: string;
+  password?: string;
+}
+
+export function createSmtpTransport({ host, port, user, password }: SmtpOptions): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    // Port 465 speaks TLS from the start; others upgrade with STARTTLS
+    secure: port === 465,
+    auth: user ? { user, pass: password } : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    async send(message: MailMessage) {
+      await transporter.sendMail({
+        from: message.from,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        attachments: message.attachments?.map((a) => ({
+          filename: a.filename,
+          content: a.content,
+          contentType: a.contentType,
+        })),
+      });
+    },
+  };
+}
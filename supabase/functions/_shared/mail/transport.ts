@@ -0,0 +1,20 @@
+export interface MailAttachment {
+  filename: string;
+  content: Uint8Array;
+  contentType: string;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  attachments?: MailAttachment[];
+}
+
+// Anything that can deliver a message; throwing marks the certificate's email as failed
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,356 @@
+// Renders and stores every certificate of a pending batch, then bundles them into a ZIP.
+//
+// POST { batch_id } with a user's JWT processes that batch (if the caller owns it);
+// POST {} with the service role key picks up every pending batch, and every processing one whose
+// worker has gone quiet; the `process-batches` cron job does this every minute.
+// SITE_URL is the app's public address, used for verification links printed on certificates.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { archivedFiles, buildBatchArchive, type ArchiveEntry } from '@certificates/archive.ts';
+import type { CustomFont } from '@certificates/fonts.ts';
+import { OUTPUT_FORMATS, toOutputFormat, type OutputFormat } from '@certificates/formats.ts';
+import { templatePages } from '@certificates/layout.ts';
+import { ARCHIVE_FILE_NAME, STORAGE_BUCKET, assetPath, certificateFileName, generatedPath } from '@certificates/paths.ts';
+import type { CertificateTemplate, CsvRow, FieldMapping, TemplateField, TemplatePage } from '@certificates/types.ts';
+import { verificationUrl } from '@certificates/verification.ts';
+import { canAccessBatch, createAdminClient, isServiceRole } from '../_shared/auth.ts';
+import { incrementBatchCounts, recomputeBatchCounts } from '../_shared/batches.ts';
+import { corsHeaders, errorMessage, jsonResponse } from '../_shared/cors.ts';
+import { invokeFunction } from '../_shared/invoke.ts';
+import { renderCertificate } from './render.ts';
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+// Stay well inside the runtime's wall-clock limit; unfinished batches go back to `pending`
+// and are handed to a fresh invocation
+const TIME_BUDGET_MS = 100_000;
+
+// A processing batch untouched for this long lost its worker (every row rendered bumps the batch's
+// counters, and so its updated_at), and may be claimed again
+const STALE_AFTER_MS = 10 * 60_000;
+
+interface Batch {
+  id: string;
+  user_id: string;
+  template_id: string | null;
+  output_format: string;
+  file_name_pattern: string;
+  field_mapping: FieldMapping;
+}
+
+interface CertificateRow {
+  id: string;
+  // The template variant the row was queued with; rows from before variants existed have none
+  template_id: string | null;
+  row_index: number;
+  recipient_name: string;
+  recipient_email: string | null;
+  recipient_data: CsvRow;
+  certificate_url: string | null;
+  render_attempts: number;
+  verification_code: string;
+  version: number;
+}
+
+// Pending batches, and processing ones whose worker stopped without finishing
+function claimableFilter() {
+  const staleBefore = new Date(Date.now() - STALE_AFTER_MS).toISOString();
+  return `status.eq.pending,and(status.eq.processing,updated_at.lt."${staleBefore}")`;
+}
+
+// Atomically move a batch to processing so two workers never render the same rows. Rows a dead
+// worker already rendered are skipped, so reclaiming a batch picks up where it stopped.
+async function claimBatch(admin: SupabaseClient, batchId: string) {
+  const { data, error } = await admin
+    .from('batch_jobs')
+    .update({ status: 'processing' })
+    .eq('id', batchId)
+    .or(claimableFilter())
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as Batch | null;
+}
+
+async function uploadFile(admin: SupabaseClient, path: string, file: Uint8Array, contentType: string) {
+  const { error } = await admin.storage
+    .from(STORAGE_BUCKET)
+    .upload(path, file, { contentType, upsert: true });
+
+  if (error) throw error;
+  return admin.storage.from(STORAGE_BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+// The certificate files in the batch's current archive, if it has one that can be read
+async function previousArchiveFiles(admin: SupabaseClient, batch: Batch) {
+  const path = generatedPath(batch.user_id, batch.id, ARCHIVE_FILE_NAME);
+  const { data: file, error } = await admin.storage.from(STORAGE_BUCKET).download(path);
+  if (error) return new Map<string, Uint8Array>();
+  try {
+    return archivedFiles(new Uint8Array(await file.arrayBuffer()));
+  } catch (error) {
+    console.error(`Batch ${batch.id}: can't reuse the previous archive`, error);
+    return new Map<string, Uint8Array>();
+  }
+}
+
+// Rebuilds after a revoke or reissue reuse the files already in the archive, so only new
+// certificates are downloaded
+async function buildArchive(admin: SupabaseClient, batch: Batch, format: OutputFormat) {
+  const previous = await previousArchiveFiles(admin, batch);
+  const { data: certificates, error } = await admin
+    .from('certificates')
+    .select('*')
+    .eq('batch_id', batch.id)
+    .not('certificate_url', 'is', null)
+    .is('revoked_at', null)
+    .order('row_index');
+
+  if (error) throw error;
+
+  const entries: ArchiveEntry[] = [];
+  for (const certificate of certificates as CertificateRow[]) {
+    let file = previous.get(certificate.id);
+    if (!file) {
+      const path = generatedPath(batch.user_id, batch.id, certificateFileName(certificate.id, format));
+      const { data, error: downloadError } = await admin.storage.from(STORAGE_BUCKET).download(path);
+      if (downloadError) throw downloadError;
+      file = new Uint8Array(await data.arrayBuffer());
+    }
+
+    entries.push({
+      rowNumber: certificate.row_index + 1,
+      row: certificate.recipient_data,
+      certificateId: certificate.id,
+      version: certificate.version,
+      recipientName: certificate.recipient_name,
+      recipientEmail: certificate.recipient_email,
+      file,
+    });
+  }
+
+  const archive = buildBatchArchive(entries, batch.file_name_pattern, batch.field_mapping, OUTPUT_FORMATS[format].extension);
+  return uploadFile(admin, generatedPath(batch.user_id, batch.id, ARCHIVE_FILE_NAME), archive, 'application/zip');
+}
+
+interface LoadedTemplate {
+  template: CertificateTemplate;
+  fields: TemplateField[];
+  pages: TemplatePage[];
+}
+
+async function processBatch(admin: SupabaseClient, batch: Batch, deadline: number) {
+  const format = toOutputFormat(batch.output_format);
+
+  // Rows rendered or failed by an earlier run are skipped; retries put failed rows back to pending
+  // and reissues add new pending rows
+  const { data: pending, error: pendingError } = await admin
+    .from('certificates')
+    .select('*')
+    .eq('batch_id', batch.id)
+    .eq('render_status', 'pending')
+    .order('row_index');
+
+  if (pendingError) throw pendingError;
+
+  // Each row is rendered with the template variant it was queued with. A run after a revoke has
+  // nothing to render, and needs no template. Only the batch owner's templates load, so a row whose
+  // template has since been deleted, or belongs to someone else, fails on its own.
+  const templateIds = pending.length === 0
+    ? []
+    : [batch.template_id, ...(pending as CertificateRow[]).map((c) => c.template_id)].filter(
+        (id): id is string => !!id
+      );
+  const { data: templateRows, error: templateError } = templateIds.length === 0
+    ? { data: [], error: null }
+    : await admin
+        .from('certificate_templates')
+        .select('*, template_fields(*), template_pages(*)')
+        .eq('user_id', batch.user_id)
+        .in('id', [...new Set(templateIds)]);
+
+  if (templateError) throw templateError;
+
+  const templates = new Map<string, LoadedTemplate>(
+    templateRows.map((template) => [
+      template.id,
+      {
+        template: template as CertificateTemplate,
+        fields: template.template_fields as TemplateField[],
+        pages: templatePages(template, template.template_pages as TemplatePage[]),
+      },
+    ])
+  );
+  const allFields = [...templates.values()].flatMap((t) => t.fields);
+  const siteUrl = Deno.env.get('SITE_URL') ?? '';
+  if (!siteUrl && allFields.some((f) => f.field_type === 'verification_url')) {
+    console.error(`Batch ${batch.id}: SITE_URL is not configured but the template prints verification links`);
+    await admin.from('batch_jobs').update({ status: 'failed' }).eq('id', batch.id);
+    return;
+  }
+
+  // Fonts the owner uploaded, for the families the templates use
+  const { data: fonts, error: fontsError } = await admin
+    .from('custom_fonts')
+    .select('family, weight, style, file_url')
+    .eq('user_id', batch.user_id)
+    .in('family', [...new Set(allFields.map((f) => f.font_family))]);
+
+  if (fontsError) throw fontsError;
+
+  // Image file names in the CSV refer to the batch owner's uploaded assets
+  const assetBaseUrl = admin.storage.from(STORAGE_BUCKET).getPublicUrl(assetPath(batch.user_id, '')).data.publicUrl;
+
+  for (const certificate of pending as CertificateRow[]) {
+    if (Date.now() > deadline) {
+      await admin.from('batch_jobs').update({ status: 'pending' }).eq('id', batch.id);
+      // Hand the rest to a fresh invocation with its own time budget
+      await invokeFunction('process-batch', { batch_id: batch.id });
+      return;
+    }
+
+    try {
+      const variant = templates.get(certificate.template_id ?? batch.template_id ?? '');
+      if (!variant) throw new Error('Template unavailable');
+
+      const file = await renderCertificate(
+        variant.template,
+        variant.pages,
+        variant.fields,
+        certificate.recipient_data,
+        batch.field_mapping,
+        format,
+        fonts as CustomFont[],
+        {
+          verification: {
+            code: certificate.verification_code,
+            url: verificationUrl(siteUrl, certificate.verification_code),
+          },
+          assetBaseUrl,
+        }
+      );
+      const certificateUrl = await uploadFile(
+        admin,
+        generatedPath(batch.user_id, batch.id, certificateFileName(certificate.id, format)),
+        file,
+        OUTPUT_FORMATS[format].mimeType
+      );
+
+      const { error } = await admin
+        .from('certificates')
+        .update({
+          certificate_url: certificateUrl,
+          render_status: 'rendered',
+          render_error: null,
+          render_attempts: certificate.render_attempts + 1,
+        })
+        .eq('id', certificate.id);
+
+      if (error) throw error;
+      await incrementBatchCounts(admin, batch.id, { generated: 1 });
+    } catch (error) {
+      console.error(`Batch ${batch.id}: failed to render certificate ${certificate.id}`, error);
+      await admin
+        .from('certificates')
+        .update({
+          render_status: 'failed',
+          render_error: errorMessage(error),
+          render_attempts: certificate.render_attempts + 1,
+        })
+        .eq('id', certificate.id);
+      await incrementBatchCounts(admin, batch.id, { failed: 1 });
+    }
+  }
+
+  await recomputeBatchCounts(admin, batch.id);
+
+  const { data: counts, error: countsError } = await admin
+    .from('batch_jobs')
+    .select('generated_count, failed_count')
+    .eq('id', batch.id)
+    .single();
+
+  if (countsError) throw countsError;
+  const generated = counts.generated_count;
+  // A batch whose certificates were all revoked has nothing left to bundle, but it didn't fail
+  const failed = generated === 0 && counts.failed_count > 0;
+
+  // The certificates stand on their own if bundling fails, and a rebuild that fails after a revoke or
+  // reissue keeps the previous archive rather than dropping it. With nothing left to bundle, the old
+  // archive only holds revoked certificates.
+  const update: { status: string; zip_url?: string | null } = { status: failed ? 'failed' : 'completed' };
+  if (generated === 0) {
+    update.zip_url = null;
+  } else {
+    try {
+      update.zip_url = await buildArchive(admin, batch, format);
+    } catch (error) {
+      console.error(`Batch ${batch.id}: failed to build the archive, keeping the previous one`, error);
+    }
+  }
+
+  await admin.from('batch_jobs').update(update).eq('id', batch.id);
+
+  if (generated > 0) {
+    await invokeFunction('send-emails', { batch_id: batch.id });
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { batch_id: batchId } = await req.json().catch(() => ({}));
+    const authorization = req.headers.get('Authorization') ?? '';
+    const admin = createAdminClient();
+
+    let batchIds: string[];
+    if (batchId) {
+      if (!(await canAccessBatch(authorization, batchId))) {
+        return jsonResponse({ error: 'Batch not found' }, 404);
+      }
+      batchIds = [batchId];
+    } else {
+      if (!isServiceRole(authorization)) {
+        return jsonResponse({ error: 'Only the service role can process all pending batches' }, 403);
+      }
+      const { data, error } = await admin
+        .from('batch_jobs')
+        .select('id')
+        .or(claimableFilter())
+        .order('created_at');
+      if (error) throw error;
+      batchIds = data.map((b) => b.id);
+    }
+
+    const deadline = Date.now() + TIME_BUDGET_MS;
+
+    // Respond straight away; rendering carries on in the background, one batch at a time
+    EdgeRuntime.waitUntil(
+      (async () => {
+        for (const id of batchIds) {
+          if (Date.now() > deadline) {
+            await invokeFunction('process-batch', {});
+            return;
+          }
+
+          const batch = await claimBatch(admin, id);
+          if (!batch) continue;
+
+          try {
+            await processBatch(admin, batch, deadline);
+          } catch (error) {
+            console.error(`Batch ${batch.id}: processing failed`, error);
+            await admin.from('batch_jobs').update({ status: 'failed' }).eq('id', batch.id);
+          }
+        }
+      })()
+    );
+
+    return jsonResponse({ batch_ids: batchIds }, 202);
+  } catch (error) {
+    return jsonResponse({ error: errorMessage(error) }, 500);
+  }
+});
@@ -0,0 +1,134 @@
+// Server-side counterpart of the browser preview: same layout, drawn with a WASM canvas
+import { createCanvas, loadImage } from 'canvas';
+import { drawCertificate, type Canvas2D, type LoadedImage } from '@certificates/draw.ts';
+import type { CustomFont } from '@certificates/fonts.ts';
+import { OUTPUT_FORMATS, type OutputFormat } from '@certificates/formats.ts';
+import { layoutCertificate, pageFields, toCanvasFont, type LayoutOptions } from '@certificates/layout.ts';
+import { isPdfEmbeddable, renderCertificatePdf } from '@certificates/pdf.ts';
+import type {
+  CertificateTemplate,
+  CsvRow,
+  FieldMapping,
+  MeasureText,
+  TemplateField,
+  TemplatePage,
+} from '@certificates/types.ts';
+import { fetchFont } from '../_shared/fonts.ts';
+
+type Image = Awaited<ReturnType<typeof loadImage>>;
+
+const imageCache = new Map<string, Promise<Image>>();
+
+function cachedImage(url: string) {
+  if (!imageCache.has(url)) {
+    const promise = loadImage(url).catch(() => {
+      throw new Error(`Could not load image ${url}`);
+    });
+    promise.catch(() => imageCache.delete(url));
+    imageCache.set(url, promise);
+  }
+  return imageCache.get(url)!;
+}
+
+const bytesCache = new Map<string, Promise<Uint8Array>>();
+
+// PDF output needs raw image bytes; anything pdf-lib can't embed is re-encoded as PNG
+function pdfImageBytes(url: string) {
+  if (!bytesCache.has(url)) {
+    const promise = (async () => {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`Could not load image ${url}`);
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      if (isPdfEmbeddable(bytes)) return bytes;
+
+      const image = await cachedImage(url);
+      const canvas = createCanvas(image.width(), image.height());
+      canvas.getContext('2d').drawImage(image, 0, 0);
+      return canvas.toBuffer('image/png');
+    })();
+    promise.catch(() => bytesCache.delete(url));
+    bytesCache.set(url, promise);
+  }
+  return bytesCache.get(url)!;
+}
+
+const fontCache = new Map<string, Promise<Uint8Array>>();
+
+// Files of the user's uploaded fonts
+function customFontBytes(url: string) {
+  if (!fontCache.has(url)) {
+    const promise = fetch(url).then(async (response) => {
+      if (!response.ok) throw new Error(`Could not load font ${url}`);
+      return new Uint8Array(await response.arrayBuffer());
+    });
+    promise.catch(() => fontCache.delete(url));
+    fontCache.set(url, promise);
+  }
+  return fontCache.get(url)!;
+}
+
+// PDFs get every page; an image can only hold one, so PNG and JPEG output is the first page
+export async function renderCertificate(
+  template: CertificateTemplate,
+  pages: TemplatePage[],
+  fields: TemplateField[],
+  row: CsvRow,
+  mapping: FieldMapping,
+  format: OutputFormat,
+  fonts: CustomFont[],
+  options: LayoutOptions = {}
+): Promise<Uint8Array> {
+  if (format === 'pdf') {
+    const resources = { loadImage: pdfImageBytes, fonts, loadFont: customFontBytes };
+    return renderCertificatePdf(template, pages, fields, row, mapping, resources, options);
+  }
+
+  const [page] = pages;
+  const canvas = createCanvas(page.image_width, page.image_height);
+  for (const family of new Set(fields.map((f) => f.font_family))) {
+    const faces = fonts.filter((font) => font.family === family);
+    for (const face of faces) {
+      canvas.loadFont(await customFontBytes(face.file_url), {
+        family,
+        weight: String(face.weight),
+        style: face.style,
+      });
+    }
+  }
+  // Built-in families load each weight and style the fields use
+  const builtInFaces = new Set(
+    fields
+      .filter((f) => !fonts.some((font) => font.family === f.font_family))
+      .map((f) => `${f.font_family}|${Number(f.font_weight) || 400}|${f.font_italic ? 'italic' : 'normal'}`)
+  );
+  for (const key of builtInFaces) {
+    const [family, weight, style] = key.split('|');
+    const font = await fetchFont(family, Number(weight), style);
+    if (font) canvas.loadFont(font, { family, weight, style });
+  }
+
+  const ctx = canvas.getContext('2d') as unknown as Canvas2D;
+  const measure: MeasureText = (text, font) => {
+    ctx.font = toCanvasFont(font);
+    return ctx.measureText(text).width;
+  };
+
+  const layout = layoutCertificate(page, pageFields(fields, page.page_index), row, mapping, measure, options);
+  const background = await cachedImage(layout.backgroundUrl);
+
+  const images = new Map<string, LoadedImage>();
+  for (const element of layout.elements) {
+    if (element.kind !== 'image' || !element.src || images.has(element.src)) continue;
+    const image = await cachedImage(element.src);
+    images.set(element.src, { source: image, width: image.width(), height: image.height() });
+  }
+
+  if (format === 'jpeg') {
+    // JPEG has no alpha channel; paint transparent areas white rather than black
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, layout.width, layout.height);
+  }
+  drawCertificate(ctx, layout, background, images);
+
+  return canvas.toBuffer(OUTPUT_FORMATS[format].mimeType as 'image/png' | 'image/jpeg');
+}
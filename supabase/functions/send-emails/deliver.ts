@@ -0,0 +1,104 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DEFAULT_EMAIL_TEMPLATE, ensureCertificateLink, renderEmail, type EmailTemplate } from '@certificates/email.ts';
+import { OUTPUT_FORMATS, toOutputFormat } from '@certificates/formats.ts';
+import { STORAGE_BUCKET, certificateFileName, generatedPath } from '@certificates/paths.ts';
+import type { CsvRow, FieldMapping } from '@certificates/types.ts';
+import { incrementBatchCounts } from '../_shared/batches.ts';
+import { errorMessage } from '../_shared/cors.ts';
+import type { MailAttachment, MailTransport } from '../_shared/mail/transport.ts';
+
+// Larger files are linked instead of attached so messages stay under common provider limits
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+export interface Batch {
+  id: string;
+  user_id: string;
+  output_format: string;
+  email_delivery: string;
+  field_mapping: FieldMapping;
+  certificate_templates: { name: string; email_templates: EmailTemplate | null } | null;
+}
+
+export interface CertificateRow {
+  id: string;
+  recipient_name: string;
+  recipient_email: string;
+  recipient_data: CsvRow;
+  certificate_url: string;
+  email_attempts: number;
+}
+
+// The rendered file, or null when it is too large to attach
+async function loadAttachment(admin: SupabaseClient, batch: Batch, certificate: CertificateRow) {
+  const format = toOutputFormat(batch.output_format);
+  const path = generatedPath(batch.user_id, batch.id, certificateFileName(certificate.id, format));
+  const { data, error } = await admin.storage.from(STORAGE_BUCKET).download(path);
+  if (error) throw error;
+  if (data.size > MAX_ATTACHMENT_BYTES) return null;
+
+  return {
+    filename: `certificate.${OUTPUT_FORMATS[format].extension}`,
+    content: new Uint8Array(await data.arrayBuffer()),
+    contentType: OUTPUT_FORMATS[format].mimeType,
+  } satisfies MailAttachment;
+}
+
+// Send one claimed certificate from `from` and record the outcome. Throws only when the outcome
+// can't be recorded; the row then stays `sending` until a later run reclaims it.
+export async function deliver(
+  admin: SupabaseClient,
+  transport: MailTransport,
+  from: string,
+  batch: Batch,
+  certificate: CertificateRow
+) {
+  try {
+    const attachment = batch.email_delivery === 'attachment'
+      ? await loadAttachment(admin, batch, certificate)
+      : null;
+
+    let content = renderEmail(batch.certificate_templates?.email_templates ?? DEFAULT_EMAIL_TEMPLATE, {
+      row: certificate.recipient_data,
+      mapping: batch.field_mapping,
+      templateName: batch.certificate_templates?.name ?? 'Certificate',
+      certificateUrl: certificate.certificate_url,
+    });
+    // Without the attachment the recipient still needs a way to the certificate
+    if (!attachment) {
+      content = ensureCertificateLink(content, certificate.certificate_url);
+    }
+
+    await transport.send({
+      from,
+      to: certificate.recipient_email,
+      ...content,
+      attachments: attachment ? [attachment] : undefined,
+    });
+  } catch (error) {
+    console.error(`Batch ${batch.id}: failed to email certificate ${certificate.id}`, error);
+    const { error: updateError } = await admin
+      .from('certificates')
+      .update({
+        email_status: 'failed',
+        email_error: errorMessage(error),
+        email_attempts: certificate.email_attempts + 1,
+      })
+      .eq('id', certificate.id);
+    if (updateError) throw updateError;
+    await incrementBatchCounts(admin, batch.id, { failed: 1 });
+    return;
+  }
+
+  // The message is out, so a failed write here must not mark it failed
+  const { error: updateError } = await admin
+    .from('certificates')
+    .update({
+      email_status: 'sent',
+      email_sent_at: new Date().toISOString(),
+      email_error: null,
+      email_attempts: certificate.email_attempts + 1,
+    })
+    .eq('id', certificate.id);
+  if (updateError) throw updateError;
+  await incrementBatchCounts(admin, batch.id, { sent: 1 });
+}
@@ -0,0 +1,152 @@
+// Emails rendered certificates to their recipients.
+//
+// POST { batch_id } with a user's JWT delivers that batch (if the caller owns it);
+// POST {} with the service role key sweeps every batch with pending or stuck emails; the
+// `send-emails` cron job does this every minute.
+// The transport comes from MAIL_TRANSPORT: `smtp` (SMTP_HOST, SMTP_PORT, SMTP_USER,
+// SMTP_PASSWORD) or `capture`, which only records messages. MAIL_FROM is the sender.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { canAccessBatch, createAdminClient, isServiceRole } from '../_shared/auth.ts';
+import { recomputeBatchCounts } from '../_shared/batches.ts';
+import { corsHeaders, errorMessage, jsonResponse } from '../_shared/cors.ts';
+import { invokeFunction } from '../_shared/invoke.ts';
+import { createTransportFromEnv, mailFromAddress, type MailMessage, type MailTransport } from '../_shared/mail/index.ts';
+import { deliver, type Batch, type CertificateRow } from './deliver.ts';
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const TIME_BUDGET_MS = 100_000;
+
+// A certificate left `sending` this long lost its worker, or its outcome couldn't be recorded, and
+// is sent again. Delivery is at least once: a message that went out but wasn't recorded repeats.
+const STALE_SENDING_MS = 10 * 60_000;
+
+const CLAIM_PAGE_SIZE = 50;
+
+// Waiting to go out: pending, or stuck in sending
+function sendableFilter() {
+  const staleBefore = new Date(Date.now() - STALE_SENDING_MS).toISOString();
+  return `email_status.eq.pending,and(email_status.eq.sending,email_claimed_at.lt."${staleBefore}")`;
+}
+
+// Certificates that are rendered, addressed, not revoked and still waiting to go out
+function deliverableQuery(admin: SupabaseClient, columns: string) {
+  return admin
+    .from('certificates')
+    .select(columns)
+    .or(sendableFilter())
+    .is('revoked_at', null)
+    .not('recipient_email', 'is', null)
+    .not('certificate_url', 'is', null);
+}
+
+// Flip one certificate to sending; only the worker that wins the flip sends it
+async function claimCertificate(admin: SupabaseClient, certificateId: string) {
+  const { data, error } = await admin
+    .from('certificates')
+    .update({ email_status: 'sending', email_claimed_at: new Date().toISOString() })
+    .eq('id', certificateId)
+    .or(sendableFilter())
+    // Revoked since it was listed
+    .is('revoked_at', null)
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as CertificateRow | null;
+}
+
+// Returns false when the time budget ran out before the batch was finished
+async function deliverBatch(admin: SupabaseClient, transport: MailTransport, batchId: string, deadline: number) {
+  const { data: batch, error } = await admin
+    .from('batch_jobs')
+    .select('id, user_id, output_format, email_delivery, field_mapping, certificate_templates(name, email_templates(subject, body_html, body_text))')
+    .eq('id', batchId)
+    .single();
+
+  if (error) throw error;
+
+  for (;;) {
+    const { data: page, error: pageError } = await deliverableQuery(admin, 'id')
+      .eq('batch_id', batchId)
+      .limit(CLAIM_PAGE_SIZE);
+
+    if (pageError) throw pageError;
+    if (page.length === 0) {
+      await recomputeBatchCounts(admin, batchId);
+      return true;
+    }
+
+    for (const { id } of page as unknown as { id: string }[]) {
+      if (Date.now() > deadline) return false;
+
+      const certificate = await claimCertificate(admin, id);
+      if (certificate) {
+        await deliver(admin, transport, mailFromAddress(), batch as unknown as Batch, certificate);
+      }
+    }
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { batch_id: batchId } = await req.json().catch(() => ({}));
+    const authorization = req.headers.get('Authorization') ?? '';
+    const admin = createAdminClient();
+    const transport = createTransportFromEnv();
+    // Fail fast on missing configuration rather than marking every email as failed
+    mailFromAddress();
+
+    let batchIds: string[];
+    if (batchId) {
+      if (!(await canAccessBatch(authorization, batchId))) {
+        return jsonResponse({ error: 'Batch not found' }, 404);
+      }
+      batchIds = [batchId];
+    } else {
+      if (!isServiceRole(authorization)) {
+        return jsonResponse({ error: 'Only the service role can deliver all pending emails' }, 403);
+      }
+      const { data, error } = await deliverableQuery(admin, 'batch_id');
+      if (error) throw error;
+      batchIds = [...new Set((data as unknown as { batch_id: string }[]).map((c) => c.batch_id))];
+    }
+
+    const deadline = Date.now() + TIME_BUDGET_MS;
+
+    const work = (async () => {
+      for (const id of batchIds) {
+        try {
+          if (!(await deliverBatch(admin, transport, id, deadline))) {
+            // Hand the rest to a fresh invocation with its own time budget
+            await invokeFunction('send-emails', batchId ? { batch_id: id } : {});
+            return;
+          }
+        } catch (error) {
+          console.error(`Batch ${id}: email delivery failed`, error);
+        }
+      }
+    })();
+
+    // The capture transport runs inline and returns what it would have sent, for inspection in tests
+    if ('messages' in transport) {
+      await work;
+      const messages = (transport.messages as MailMessage[]).map(({ to, subject, text, attachments }) => ({
+        to,
+        subject,
+        text,
+        attachments: attachments?.map((a) => a.filename) ?? [],
+      }));
+      return jsonResponse({ batch_ids: batchIds, transport: transport.name, messages });
+    }
+
+    EdgeRuntime.waitUntil(work);
+    return jsonResponse({ batch_ids: batchIds, transport: transport.name }, 202);
+  } catch (error) {
+    return jsonResponse({ error: errorMessage(error) }, 500);
+  }
+});
@@ -0,0 +1,4 @@
+-- Output format chosen for each batch (png, jpeg or pdf)
+ALTER TABLE public.batch_jobs
+  ADD COLUMN output_format TEXT NOT NULL DEFAULT 'png'
+  CHECK (output_format IN ('png', 'jpeg', 'pdf'));
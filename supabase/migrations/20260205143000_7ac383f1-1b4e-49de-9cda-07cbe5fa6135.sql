@@ -0,0 +1,3 @@
+-- File naming pattern for certificates inside a batch's ZIP archive, e.g. '{{name}}-{{course}}'
+ALTER TABLE public.batch_jobs
+  ADD COLUMN file_name_pattern TEXT NOT NULL DEFAULT '{{name}}';
@@ -0,0 +1,11 @@
+-- Batches are now rendered by the process-batch edge function; it needs the
+-- CSV-to-field mapping chosen in the browser and a stable order for the rows
+ALTER TABLE public.batch_jobs
+  ADD COLUMN field_mapping JSONB NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.certificates
+  ADD COLUMN row_index INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN render_error TEXT;
+
+CREATE INDEX batch_jobs_status_idx ON public.batch_jobs (status);
+CREATE INDEX certificates_batch_id_row_index_idx ON public.certificates (batch_id, row_index);
@@ -0,0 +1,25 @@
+-- Email delivery: how the certificate reaches the recipient, plus atomic counter updates
+-- so the render and email workers can update a batch concurrently
+ALTER TABLE public.batch_jobs
+  ADD COLUMN email_delivery TEXT NOT NULL DEFAULT 'attachment'
+  CHECK (email_delivery IN ('attachment', 'link'));
+
+-- certificates.email_status now also takes `sending` (claimed by a worker) and `skipped` (no email requested)
+CREATE INDEX certificates_email_status_idx ON public.certificates (batch_id, email_status);
+
+CREATE OR REPLACE FUNCTION public.increment_batch_counts(
+  _batch_id UUID,
+  _generated INTEGER DEFAULT 0,
+  _sent INTEGER DEFAULT 0,
+  _failed INTEGER DEFAULT 0
+)
+RETURNS VOID AS $$
+  UPDATE public.batch_jobs
+  SET generated_count = generated_count + _generated,
+      sent_count = sent_count + _sent,
+      failed_count = failed_count + _failed
+  WHERE id = _batch_id;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Only the workers (service role) may touch the counters
+REVOKE EXECUTE ON FUNCTION public.increment_batch_counts(UUID, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
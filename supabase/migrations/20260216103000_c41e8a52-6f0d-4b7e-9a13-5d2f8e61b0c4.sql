@@ -0,0 +1,33 @@
+-- Email subject and bodies per certificate template, with the same {{field_key}} placeholders as the fields
+CREATE TABLE public.email_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id UUID REFERENCES public.certificate_templates(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  subject TEXT NOT NULL,
+  body_html TEXT NOT NULL,
+  body_text TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- Enable RLS on email templates
+ALTER TABLE public.email_templates ENABLE ROW LEVEL SECURITY;
+
+-- Email template policies (access through template ownership)
+CREATE POLICY "Users can view email templates of own templates" ON public.email_templates
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.certificate_templates WHERE id = template_id AND user_id = auth.uid())
+  );
+CREATE POLICY "Users can insert email templates to own templates" ON public.email_templates
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM public.certificate_templates WHERE id = template_id AND user_id = auth.uid())
+  );
+CREATE POLICY "Users can update email templates of own templates" ON public.email_templates
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM public.certificate_templates WHERE id = template_id AND user_id = auth.uid())
+  );
+CREATE POLICY "Users can delete email templates of own templates" ON public.email_templates
+  FOR DELETE USING (
+    EXISTS (SELECT 1 FROM public.certificate_templates WHERE id = template_id AND user_id = auth.uid())
+  );
+
+CREATE TRIGGER update_email_templates_updated_at BEFORE UPDATE ON public.email_templates FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
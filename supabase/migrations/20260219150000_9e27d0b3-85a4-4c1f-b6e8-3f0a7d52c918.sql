@@ -0,0 +1,72 @@
+-- Retries: rendering gets a status of its own (pending, rendered, failed) like email_status,
+-- and both steps count their attempts. render_error and email_error keep the last error.
+ALTER TABLE public.certificates
+  ADD COLUMN render_status TEXT NOT NULL DEFAULT 'pending',
+  ADD COLUMN render_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN email_attempts INTEGER NOT NULL DEFAULT 0;
+
+UPDATE public.certificates SET render_status = 'rendered', render_attempts = 1 WHERE certificate_url IS NOT NULL;
+UPDATE public.certificates SET render_status = 'failed', render_attempts = 1 WHERE certificate_url IS NULL AND render_error IS NOT NULL;
+UPDATE public.certificates SET email_attempts = 1 WHERE email_status IN ('sent', 'failed');
+
+CREATE INDEX certificates_render_status_idx ON public.certificates (batch_id, render_status);
+
+-- Derive a batch's counters from its certificates; used after retries, when incremental counts would drift
+CREATE OR REPLACE FUNCTION public.recompute_batch_counts(_batch_id UUID)
+RETURNS VOID AS $$
+  UPDATE public.batch_jobs
+  SET generated_count = counts.generated,
+      sent_count = counts.sent,
+      failed_count = counts.failed
+  FROM (
+    SELECT
+      count(*) FILTER (WHERE render_status = 'rendered') AS generated,
+      count(*) FILTER (WHERE email_status = 'sent') AS sent,
+      count(*) FILTER (WHERE render_status = 'failed') + count(*) FILTER (WHERE email_status = 'failed') AS failed
+    FROM public.certificates
+    WHERE batch_id = _batch_id
+  ) AS counts
+  WHERE id = _batch_id;
+$$ LANGUAGE sql SET search_path = public;
+
+-- Queue failed renders and failed emails of a batch (or only the given certificates) for another attempt.
+-- Runs with the caller's rights, so RLS limits it to the caller's own batches.
+CREATE OR REPLACE FUNCTION public.retry_batch(_batch_id UUID, _certificate_ids UUID[] DEFAULT NULL)
+RETURNS JSONB AS $$
+DECLARE
+  _status TEXT;
+  _renders INTEGER;
+  _emails INTEGER;
+BEGIN
+  SELECT status INTO _status FROM public.batch_jobs WHERE id = _batch_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Batch not found';
+  END IF;
+  IF _status IN ('pending', 'processing') THEN
+    RAISE EXCEPTION 'Batch is still being processed';
+  END IF;
+
+  UPDATE public.certificates
+  SET render_status = 'pending'
+  WHERE batch_id = _batch_id
+    AND render_status = 'failed'
+    AND (_certificate_ids IS NULL OR id = ANY (_certificate_ids));
+  GET DIAGNOSTICS _renders = ROW_COUNT;
+
+  UPDATE public.certificates
+  SET email_status = 'pending'
+  WHERE batch_id = _batch_id
+    AND email_status = 'failed'
+    AND (_certificate_ids IS NULL OR id = ANY (_certificate_ids));
+  GET DIAGNOSTICS _emails = ROW_COUNT;
+
+  -- Re-rendered rows go back through process-batch, which also emails them afterwards
+  IF _renders > 0 THEN
+    UPDATE public.batch_jobs SET status = 'pending' WHERE id = _batch_id;
+  END IF;
+
+  PERFORM public.recompute_batch_counts(_batch_id);
+
+  RETURN jsonb_build_object('renders', _renders, 'emails', _emails);
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
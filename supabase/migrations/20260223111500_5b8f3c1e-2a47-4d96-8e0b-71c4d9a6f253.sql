@@ -0,0 +1,47 @@
+-- Public verification: every certificate gets a short unguessable code that anyone can look up
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- 10 characters of Crockford's base32 (no I, L, O or U); 32 symbols, so every byte maps evenly
+CREATE OR REPLACE FUNCTION public.generate_verification_code()
+RETURNS TEXT AS $$
+DECLARE
+  _alphabet CONSTANT TEXT := '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+  _bytes BYTEA := extensions.gen_random_bytes(10);
+  _code TEXT := '';
+BEGIN
+  FOR i IN 0..9 LOOP
+    _code := _code || substr(_alphabet, get_byte(_bytes, i) % 32 + 1, 1);
+  END LOOP;
+  RETURN _code;
+END;
+$$ LANGUAGE plpgsql VOLATILE SET search_path = public;
+
+ALTER TABLE public.certificates
+  ADD COLUMN verification_code TEXT NOT NULL UNIQUE DEFAULT public.generate_verification_code();
+
+-- Printed on the verification page as the issuer
+ALTER TABLE public.certificate_templates
+  ADD COLUMN issuer_name TEXT;
+
+ALTER TABLE public.template_fields
+  ADD COLUMN field_type TEXT NOT NULL DEFAULT 'text'; -- text, verification_code, verification_url
+
+-- The only public window onto certificates: just what a verifier needs, for issued certificates only
+CREATE OR REPLACE FUNCTION public.verify_certificate(_code TEXT)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'verification_code', c.verification_code,
+    'recipient_name', c.recipient_name,
+    'issuer_name', t.issuer_name,
+    'template_name', t.name,
+    'issued_at', c.created_at,
+    'status', 'valid'
+  )
+  FROM public.certificates c
+  LEFT JOIN public.certificate_templates t ON t.id = c.template_id
+  -- Read back look-alikes the way Crockford's base32 does
+  WHERE c.verification_code = translate(upper(trim(_code)), 'OIL', '011')
+    AND c.render_status = 'rendered';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.verify_certificate(TEXT) TO anon, authenticated;
@@ -0,0 +1,6 @@
+-- QR code fields: field_type also takes 'qr'. A QR field encodes `content`, a string that may
+-- contain {{placeholders}}, and is drawn as a width x height square with x/y as its top-left corner
+ALTER TABLE public.template_fields
+  ADD COLUMN width NUMERIC,
+  ADD COLUMN height NUMERIC,
+  ADD COLUMN content TEXT;
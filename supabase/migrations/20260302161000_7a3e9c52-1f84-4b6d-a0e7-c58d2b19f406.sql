@@ -0,0 +1,142 @@
+-- Revocation and reissue. A revoked certificate keeps its row (and its verification code, which
+-- now reports it as revoked); a reissue is a new row in the same batch pointing back at the one it
+-- replaces, one version higher.
+ALTER TABLE public.certificates
+  ADD COLUMN version INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN replaces_id UUID REFERENCES public.certificates(id) ON DELETE SET NULL,
+  ADD COLUMN revoked_at TIMESTAMPTZ,
+  ADD COLUMN revoked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN revocation_reason TEXT;
+
+CREATE UNIQUE INDEX certificates_replaces_id_idx ON public.certificates (replaces_id);
+
+-- Revoked certificates no longer count as generated, sent or failed
+CREATE OR REPLACE FUNCTION public.recompute_batch_counts(_batch_id UUID)
+RETURNS VOID AS $$
+  UPDATE public.batch_jobs
+  SET generated_count = counts.generated,
+      sent_count = counts.sent,
+      failed_count = counts.failed
+  FROM (
+    SELECT
+      count(*) FILTER (WHERE render_status = 'rendered') AS generated,
+      count(*) FILTER (WHERE email_status = 'sent') AS sent,
+      count(*) FILTER (WHERE render_status = 'failed') + count(*) FILTER (WHERE email_status = 'failed') AS failed
+    FROM public.certificates
+    WHERE batch_id = _batch_id
+      AND revoked_at IS NULL
+  ) AS counts
+  WHERE id = _batch_id;
+$$ LANGUAGE sql SET search_path = public;
+
+-- Revoke an issued certificate. Unsent emails are dropped, and the batch goes back to pending so
+-- process-batch rebuilds its archive without the certificate. Runs with the caller's rights.
+CREATE OR REPLACE FUNCTION public.revoke_certificate(_certificate_id UUID, _reason TEXT)
+RETURNS VOID AS $$
+DECLARE
+  _batch_id UUID;
+  _status TEXT;
+BEGIN
+  IF coalesce(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to revoke a certificate';
+  END IF;
+
+  SELECT c.batch_id, b.status INTO _batch_id, _status
+  FROM public.certificates c
+  JOIN public.batch_jobs b ON b.id = c.batch_id
+  WHERE c.id = _certificate_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Certificate not found';
+  END IF;
+  IF _status IN ('pending', 'processing') THEN
+    RAISE EXCEPTION 'Batch is still being processed';
+  END IF;
+
+  UPDATE public.certificates
+  SET revoked_at = now(),
+      revoked_by = auth.uid(),
+      revocation_reason = trim(_reason),
+      email_status = CASE WHEN email_status IN ('pending', 'failed') THEN 'skipped' ELSE email_status END
+  WHERE id = _certificate_id
+    AND render_status = 'rendered'
+    AND revoked_at IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only issued certificates that are still valid can be revoked';
+  END IF;
+
+  UPDATE public.batch_jobs SET status = 'pending' WHERE id = _batch_id;
+  PERFORM public.recompute_batch_counts(_batch_id);
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Revoke a certificate (unless it already is) and queue a corrected copy built from the given
+-- recipient data. Returns the replacement's id; process-batch renders and emails it.
+CREATE OR REPLACE FUNCTION public.reissue_certificate(
+  _certificate_id UUID,
+  _reason TEXT,
+  _recipient_name TEXT,
+  _recipient_email TEXT,
+  _recipient_data JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  _original public.certificates;
+  _replacement_id UUID;
+BEGIN
+  SELECT * INTO _original FROM public.certificates WHERE id = _certificate_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Certificate not found';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.certificates WHERE replaces_id = _certificate_id) THEN
+    RAISE EXCEPTION 'Certificate has already been reissued';
+  END IF;
+
+  IF _original.revoked_at IS NULL THEN
+    PERFORM public.revoke_certificate(_certificate_id, _reason);
+  ELSIF EXISTS (SELECT 1 FROM public.batch_jobs WHERE id = _original.batch_id AND status IN ('pending', 'processing')) THEN
+    RAISE EXCEPTION 'Batch is still being processed';
+  END IF;
+
+  INSERT INTO public.certificates (
+    batch_id, template_id, row_index, recipient_name, recipient_email, recipient_data,
+    email_status, version, replaces_id
+  )
+  VALUES (
+    _original.batch_id,
+    _original.template_id,
+    _original.row_index,
+    _recipient_name,
+    nullif(trim(_recipient_email), ''),
+    _recipient_data,
+    CASE WHEN nullif(trim(_recipient_email), '') IS NULL THEN 'skipped' ELSE 'pending' END,
+    _original.version + 1,
+    _original.id
+  )
+  RETURNING id INTO _replacement_id;
+
+  UPDATE public.batch_jobs SET status = 'pending' WHERE id = _original.batch_id;
+
+  RETURN _replacement_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Revoked certificates stay verifiable so holders learn they are no longer valid
+CREATE OR REPLACE FUNCTION public.verify_certificate(_code TEXT)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'verification_code', c.verification_code,
+    'recipient_name', c.recipient_name,
+    'issuer_name', t.issuer_name,
+    'template_name', t.name,
+    'issued_at', c.created_at,
+    'version', c.version,
+    'status', CASE WHEN c.revoked_at IS NULL THEN 'valid' ELSE 'revoked' END,
+    'revoked_at', c.revoked_at,
+    'reissued', EXISTS (SELECT 1 FROM public.certificates r WHERE r.replaces_id = c.id)
+  )
+  FROM public.certificates c
+  LEFT JOIN public.certificate_templates t ON t.id = c.template_id
+  -- Read back look-alikes the way Crockford's base32 does
+  WHERE c.verification_code = translate(upper(trim(_code)), 'OIL', '011')
+    AND c.render_status = 'rendered';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
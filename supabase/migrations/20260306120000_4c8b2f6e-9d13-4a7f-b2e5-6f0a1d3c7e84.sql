@@ -0,0 +1,5 @@
+-- Image fields: field_type also takes 'image'. Like QR codes they use width, height and content,
+-- where content is a fixed asset URL or a `{{key}}` naming the CSV column with each row's image.
+ALTER TABLE public.template_fields
+  ADD COLUMN image_fit TEXT NOT NULL DEFAULT 'contain', -- contain, cover
+  ADD COLUMN image_mask TEXT; -- circle, or NULL for none
@@ -0,0 +1,43 @@
+-- Multi-page templates: each page has its own background, and fields say which page they sit on.
+-- certificate_templates' image columns keep mirroring the first page, which lists use as the thumbnail.
+CREATE TABLE public.template_pages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id UUID REFERENCES public.certificate_templates(id) ON DELETE CASCADE NOT NULL,
+  page_index INTEGER NOT NULL,
+  image_url TEXT NOT NULL,
+  image_width INTEGER NOT NULL,
+  image_height INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (template_id, page_index)
+);
+
+-- Enable RLS on template pages
+ALTER TABLE public.template_pages ENABLE ROW LEVEL SECURITY;
+
+-- Template page policies (access through template ownership)
+CREATE POLICY "Users can view pages of own templates" ON public.template_pages
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.certificate_templates WHERE id = template_id AND user_id = auth.uid())
+  );
+CREATE POLICY "Users can insert pages to own templates" ON public.template_pages
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM public.certificate_templates WHERE id = template_id AND user_id = auth.uid())
+  );
+CREATE POLICY "Users can update pages of own templates" ON public.template_pages
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM public.certificate_templates WHERE id = template_id AND user_id = auth.uid())
+  );
+CREATE POLICY "Users can delete pages of own templates" ON public.template_pages
+  FOR DELETE USING (
+    EXISTS (SELECT 1 FROM public.certificate_templates WHERE id = template_id AND user_id = auth.uid())
+  );
+
+CREATE TRIGGER update_template_pages_updated_at BEFORE UPDATE ON public.template_pages FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Every existing template becomes a one-page template
+INSERT INTO public.template_pages (template_id, page_index, image_url, image_width, image_height)
+SELECT id, 0, image_url, image_width, image_height FROM public.certificate_templates;
+
+ALTER TABLE public.template_fields
+  ADD COLUMN page_index INTEGER NOT NULL DEFAULT 0;
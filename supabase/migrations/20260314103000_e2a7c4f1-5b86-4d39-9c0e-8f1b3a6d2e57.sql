@@ -0,0 +1,6 @@
+-- Text fitting: how a text field keeps long values inside its max_width/max_height box.
+ALTER TABLE public.template_fields
+  ADD COLUMN text_fit TEXT NOT NULL DEFAULT 'none', -- none, shrink, wrap, truncate
+  ADD COLUMN max_height NUMERIC,
+  ADD COLUMN min_font_size NUMERIC, -- smallest size shrink may use
+  ADD COLUMN max_lines INTEGER; -- most lines wrap may use
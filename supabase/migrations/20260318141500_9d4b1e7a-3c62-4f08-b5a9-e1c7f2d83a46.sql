@@ -0,0 +1,20 @@
+-- Custom fonts: each row is one face (a weight and style) of a family the user uploaded.
+-- Files live in the certificates bucket under `{user_id}/fonts/…`; fields refer to the family by name.
+CREATE TABLE public.custom_fonts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  family TEXT NOT NULL,
+  weight INTEGER NOT NULL DEFAULT 400,
+  style TEXT NOT NULL DEFAULT 'normal', -- normal, italic
+  file_path TEXT NOT NULL,
+  file_url TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (user_id, family, weight, style)
+);
+
+-- Enable RLS on custom fonts
+ALTER TABLE public.custom_fonts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own fonts" ON public.custom_fonts FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own fonts" ON public.custom_fonts FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can delete own fonts" ON public.custom_fonts FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,14 @@
+-- Rich text styling for text fields.
+ALTER TABLE public.template_fields
+  ADD COLUMN font_weight INTEGER NOT NULL DEFAULT 400,
+  ADD COLUMN font_italic BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN underline BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN letter_spacing NUMERIC NOT NULL DEFAULT 0, -- extra px between characters
+  ADD COLUMN line_height NUMERIC NOT NULL DEFAULT 1, -- multiple of the font size
+  ADD COLUMN text_transform TEXT NOT NULL DEFAULT 'none', -- none, uppercase, lowercase, title
+  ADD COLUMN stroke_color TEXT, -- outline; none when null
+  ADD COLUMN stroke_width NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN shadow_color TEXT, -- drop shadow; none when null
+  ADD COLUMN shadow_blur NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN shadow_offset_x NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN shadow_offset_y NUMERIC NOT NULL DEFAULT 0;
@@ -0,0 +1,6 @@
+-- Per-field fallbacks for empty CSV cells, and rules that show a field only on some rows.
+ALTER TABLE public.template_fields
+  ADD COLUMN default_value TEXT, -- used when the CSV value is empty
+  ADD COLUMN show_when TEXT NOT NULL DEFAULT 'always', -- always, not_empty, empty, equals, not_equals
+  ADD COLUMN show_when_key TEXT, -- the placeholder key the rule reads
+  ADD COLUMN show_when_value TEXT; -- compared by equals and not_equals
@@ -0,0 +1,5 @@
+-- Template variants: a batch can issue rows with different templates, picked by the value in one CSV column.
+-- certificates.template_id records the template each certificate was actually rendered with.
+ALTER TABLE public.batch_jobs
+  ADD COLUMN variant_column TEXT, -- field key whose value picks the template; null uses template_id for every row
+  ADD COLUMN template_variants JSONB NOT NULL DEFAULT '{}'::jsonb; -- { "<value>": "<template id>" }
@@ -0,0 +1,25 @@
+-- Run the workers on a schedule, so a batch whose kick-off request failed, or whose worker died
+-- partway through, is picked up again. The calls need the project's URL and service role key,
+-- which are kept in Vault rather than in this file:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- POST {} to an edge function as the service role, which makes it sweep every batch waiting for it
+CREATE OR REPLACE FUNCTION public.invoke_worker(_name TEXT)
+RETURNS BIGINT AS $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/' || _name,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.invoke_worker(TEXT) FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('process-batches', '* * * * *', $$SELECT public.invoke_worker('process-batch')$$);
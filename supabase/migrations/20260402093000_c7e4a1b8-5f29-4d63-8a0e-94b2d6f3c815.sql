@@ -0,0 +1,6 @@
+-- When a certificate's email was claimed, so one left `sending` by a worker that died (or couldn't
+-- record the outcome) can be claimed again
+ALTER TABLE public.certificates ADD COLUMN email_claimed_at TIMESTAMPTZ;
+
+-- Sweep for unsent emails every minute, which also reclaims stuck ones
+SELECT cron.schedule('send-emails', '* * * * *', $$SELECT public.invoke_worker('send-emails')$$);
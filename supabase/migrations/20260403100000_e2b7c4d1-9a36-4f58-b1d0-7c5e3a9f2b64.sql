@@ -0,0 +1,8 @@
+-- Certificates issued before template variants don't record their template; they were all rendered with
+-- their batch's, so usage per template can be counted from certificates.template_id alone.
+UPDATE public.certificates c
+SET template_id = b.template_id
+FROM public.batch_jobs b
+WHERE c.batch_id = b.id AND c.template_id IS NULL;
+
+CREATE INDEX certificates_template_id_idx ON public.certificates (template_id);
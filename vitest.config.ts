@@ -11,6 +11,10 @@ export default defineConfig({
     include: ["src/**/*.{test,spec}.{ts,tsx}"],
   },
   resolve: {
-    alias: { "@": path.resolve(__dirname, "./src") },
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+      // The edge functions' import map name for the shared certificate code
+      "@certificates": path.resolve(__dirname, "./src/lib/certificates"),
+    },
   },
 });